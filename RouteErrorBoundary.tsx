@@ -0,0 +1,31 @@
+"use client";
+// @deno-types="@types/react"
+import { Component, type ComponentType, type ReactNode } from "react";
+import { getRouteSignal } from "./navigation.ts";
+
+/** Renders the `error` component of a route segment when its children throw. */
+export class RouteErrorBoundary extends Component<
+  {
+    fallback: ComponentType<{ error: Error; reset: () => void }>;
+    children?: ReactNode;
+  },
+  { error: Error | null }
+> {
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  override render() {
+    const error = this.state?.error;
+    if (!error) return this.props.children;
+    // Route signals are handled by the root error boundary of the client.
+    if (getRouteSignal(error)) throw error;
+    const Fallback = this.props.fallback;
+    return (
+      <Fallback
+        error={error}
+        reset={() => this.setState({ error: null })}
+      />
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { Buffer } from "node:buffer";
+
+const ivLength = 12;
+const tagLength = 16;
+
+let key: Uint8Array | undefined;
+const getKey = () => {
+  if (key) return key;
+  const envKey = Deno.env.get("RSC_ACTION_ENCRYPTION_KEY");
+  if (!envKey) {
+    console.warn(
+      "[rsc-engine] RSC_ACTION_ENCRYPTION_KEY is not set, using a per-process key",
+    );
+  }
+  const candidate = envKey ? Buffer.from(envKey, "base64") : randomBytes(32);
+  if (candidate.byteLength !== 32) {
+    throw new Error(
+      "RSC_ACTION_ENCRYPTION_KEY must be 32 base64 encoded bytes",
+    );
+  }
+  return (key = candidate);
+};
+
+// `undefined` is kept through JSON, which drops it or turns it into `null`.
+const undefinedMarker = "$RSC_undefined";
+
+const isPlainObject = (value: object) =>
+  [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+// Values JSON.stringify would change silently are rejected: functions,
+// symbols, non-finite numbers and objects other than arrays and plain ones.
+const serialize = (actionId: string, args: unknown[], names: string[]) =>
+  `[${
+    args.map((arg, i) =>
+      JSON.stringify(arg, function (key, value) {
+        const original = (this as Record<string, unknown>)[key];
+        if (original === undefined) return { [undefinedMarker]: true };
+        const isSerializable = typeof original === "object"
+          ? original === null || Array.isArray(original) ||
+            isPlainObject(original)
+          : typeof original === "number"
+          ? Number.isFinite(original)
+          : ["string", "boolean"].includes(typeof original);
+        if (!isSerializable) {
+          throw new Error(
+            `Server action ${actionId} closes over ${
+              names[i] ? `"${names[i]}", ` : ""
+            }a value that cannot be serialized: ${String(original)}`,
+          );
+        }
+        return value;
+      })
+    ).join(",")
+  }]`;
+
+/**
+ * Encrypts the variables an inline server action closes over, named `names`
+ * in errors. The action id is authenticated alongside, so a payload cannot be
+ * replayed on another action. Values must be JSON serializable or undefined.
+ */
+export const encryptActionBoundArgs = (
+  actionId: string,
+  args: unknown[],
+  names: string[] = [],
+): string => {
+  const iv = randomBytes(ivLength);
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv);
+  cipher.setAAD(Buffer.from(actionId));
+  const encrypted = Buffer.concat([
+    cipher.update(serialize(actionId, args, names), "utf8"),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString(
+    "base64url",
+  );
+};
+
+export const decryptActionBoundArgs = (
+  actionId: string,
+  payload: unknown,
+): unknown[] => {
+  if (typeof payload !== "string") {
+    throw new Error(`Missing bound arguments for server action ${actionId}`);
+  }
+  const data = Buffer.from(payload, "base64url");
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    getKey(),
+    data.subarray(0, ivLength),
+  );
+  decipher.setAAD(Buffer.from(actionId));
+  decipher.setAuthTag(data.subarray(ivLength, ivLength + tagLength));
+  const decrypted = Buffer.concat([
+    decipher.update(data.subarray(ivLength + tagLength)),
+    decipher.final(),
+  ]);
+  return JSON.parse(
+    decrypted.toString("utf8"),
+    (_, value) => value?.[undefinedMarker] === true ? undefined : value,
+  );
+};
@@ -0,0 +1,56 @@
+import type { FetchHandler } from "./fetch-handler.ts";
+
+// Structural types of the frameworks, so none of them is a dependency.
+interface HonoContext {
+  req: { raw: Request };
+  res: Response;
+}
+
+interface OakContext {
+  request: { source?: Request };
+  response: {
+    status: number;
+    headers: Headers;
+    body?: unknown;
+  };
+}
+
+/** Handler for `Deno.serve`: `Deno.serve(toDenoServeHandler(handler))`. */
+export const toDenoServeHandler =
+  (handler: FetchHandler) => (request: Request) => handler(request);
+
+/**
+ * Hono middleware: `app.use(toHonoMiddleware(handler))`. Requests no route
+ * matches go on to the next Hono handlers.
+ */
+export const toHonoMiddleware =
+  (handler: FetchHandler) =>
+  (c: HonoContext, next: () => Promise<void>): Promise<Response> =>
+    handler(c.req.raw, async () => {
+      await next();
+      return c.res;
+    });
+
+/**
+ * Oak middleware: `app.use(toOakMiddleware(handler))`. Requests no route
+ * matches go on to the next Oak middleware.
+ */
+export const toOakMiddleware =
+  (handler: FetchHandler) =>
+  async (ctx: OakContext, next: () => Promise<unknown>): Promise<void> => {
+    if (!ctx.request.source) {
+      throw new Error("[rsc-engine] oak did not expose the native Request");
+    }
+    let passed = false;
+    const response = await handler(ctx.request.source, async () => {
+      passed = true;
+      await next();
+      return new Response(null, { status: 404 });
+    });
+    if (passed) return;
+    ctx.response.status = response.status;
+    response.headers.forEach((value, key) =>
+      ctx.response.headers.set(key, value)
+    );
+    ctx.response.body = response.body;
+  };
@@ -0,0 +1,166 @@
+import { promisify } from "node:util";
+import { gzip } from "node:zlib";
+import { join } from "@std/path/join";
+
+/** Maximum gzipped size in bytes of the chunks an entry loads. */
+export interface SizeBudgets {
+  route?: number;
+  clientReference?: number;
+}
+
+interface Size {
+  raw: number;
+  gzip: number;
+}
+
+export interface BundleReportEntry extends Size {
+  chunks: string[];
+  /** Part of the size coming from chunks other routes, or references, load. */
+  shared: Size;
+}
+
+export interface BundleReport {
+  chunks: { [path: string]: Size & { usedBy: string[] } };
+  clientReferences: { [entryPoint: string]: BundleReportEntry };
+  routes: { [pattern: string]: BundleReportEntry };
+  violations: {
+    kind: keyof SizeBudgets;
+    name: string;
+    gzip: number;
+    budget: number;
+  }[];
+}
+
+const gzipAsync = promisify(gzip);
+
+const getSize = async (path: string): Promise<Size> => {
+  const contents = await Deno.readFile(path);
+  return { raw: contents.byteLength, gzip: (await gzipAsync(contents)).length };
+};
+
+const sum = (sizes: Size[]) =>
+  sizes.reduce((total, size) => ({
+    raw: total.raw + size.raw,
+    gzip: total.gzip + size.gzip,
+  }), { raw: 0, gzip: 0 });
+
+/**
+ * Sizes the chunks, relative to the working directory, loaded by each client
+ * reference and each route. A chunk loaded by several entries is counted in
+ * each of them and reported as shared.
+ */
+export const createBundleReport = async (
+  entries: {
+    clientReferences: { [entryPoint: string]: string[] };
+    routes: { [pattern: string]: string[] };
+  },
+  budgets: SizeBudgets = {},
+): Promise<BundleReport> => {
+  const usedBy = new Map<string, Set<string>>();
+  for (const group of [entries.clientReferences, entries.routes]) {
+    for (const [name, chunks] of Object.entries(group)) {
+      chunks.forEach((chunk) =>
+        usedBy.set(chunk, (usedBy.get(chunk) ?? new Set()).add(name))
+      );
+    }
+  }
+  const chunks = Object.fromEntries(
+    await Promise.all(
+      [...usedBy.keys()].sort().map(async (path) =>
+        [
+          path,
+          {
+            ...await getSize(path).catch(() => ({ raw: 0, gzip: 0 })),
+            usedBy: [...usedBy.get(path)!].sort(),
+          },
+        ] as const
+      ),
+    ),
+  );
+  const toEntries = (group: { [name: string]: string[] }) =>
+    Object.fromEntries(
+      Object.entries(group).map(([name, paths]) => {
+        const sizes = paths.map((path) => chunks[path]);
+        return [name, {
+          chunks: paths,
+          ...sum(sizes),
+          shared: sum(
+            sizes.filter(({ usedBy }) =>
+              usedBy.filter((user) => user in group).length > 1
+            ),
+          ),
+        }];
+      }),
+    );
+  const clientReferences = toEntries(entries.clientReferences);
+  const routes = toEntries(entries.routes);
+  const violations = [
+    ...Object.entries(routes).map(([name, entry]) =>
+      ["route", name, entry] as const
+    ),
+    ...Object.entries(clientReferences).map(([name, entry]) =>
+      ["clientReference", name, entry] as const
+    ),
+  ]
+    .filter(([kind, , { gzip }]) =>
+      budgets[kind] !== undefined && gzip > budgets[kind]!
+    )
+    .map(([kind, name, { gzip }]) => ({
+      kind,
+      name,
+      gzip,
+      budget: budgets[kind]!,
+    }));
+  return { chunks, clientReferences, routes, violations };
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const renderTable = (
+  title: string,
+  entries: { [name: string]: BundleReportEntry },
+) =>
+  `<h2>${title}</h2><table><tr><th>Name</th><th>Raw</th><th>Gzip</th>` +
+  `<th>Shared gzip</th><th>Chunks</th></tr>${
+    Object.entries(entries)
+      .sort(([, a], [, b]) => b.gzip - a.gzip)
+      .map(([name, entry]) =>
+        `<tr><td>${escapeHtml(name)}</td><td>${formatBytes(entry.raw)}</td>` +
+        `<td>${formatBytes(entry.gzip)}</td>` +
+        `<td>${formatBytes(entry.shared.gzip)}</td>` +
+        `<td>${entry.chunks.map(escapeHtml).join("<br>")}</td></tr>`
+      )
+      .join("")
+  }</table>`;
+
+/** Writes `analyze.json` and a readable `analyze.html` into `directory`. */
+export const writeBundleReport = async (
+  directory: string,
+  report: BundleReport,
+) => {
+  await Deno.mkdir(directory, { recursive: true });
+  await Deno.writeTextFile(
+    join(directory, "analyze.json"),
+    JSON.stringify(report, null, 2),
+  );
+  const violations = report.violations.map(({ kind, name, gzip, budget }) =>
+    `<li>${kind} ${escapeHtml(name)}: ${formatBytes(gzip)} &gt; ${
+      formatBytes(budget)
+    }</li>`
+  );
+  await Deno.writeTextFile(
+    join(directory, "analyze.html"),
+    `<!doctype html><meta charset="utf-8"><title>Bundle analysis</title>` +
+      `<style>body{font-family:sans-serif}td,th{padding:2px 8px;` +
+      `text-align:left;vertical-align:top}</style>` +
+      (violations.length > 0
+        ? `<h2>Budget violations</h2><ul>${violations.join("")}</ul>`
+        : "") +
+      renderTable("Routes", report.routes) +
+      renderTable("Client references", report.clientReferences),
+  );
+};
@@ -0,0 +1,165 @@
+import { promisify } from "node:util";
+import { brotliCompress, gzip } from "node:zlib";
+import { eTag, ifNoneMatch } from "@std/http/etag";
+import { acceptsEncodings } from "@std/http/negotiation";
+import { contentType } from "@std/media-types/content-type";
+import { extname } from "@std/path/extname";
+import { join } from "@std/path/join";
+
+/** Cross-origin policy of the asset route, `false` sends no CORS headers. */
+export interface CorsOptions {
+  origin?: string | string[] | ((origin: string) => boolean);
+  credentials?: boolean;
+  headers?: string[];
+  maxAge?: number;
+}
+
+const encodings = [
+  { name: "br", ext: ".br", compress: promisify(brotliCompress) },
+  { name: "gzip", ext: ".gz", compress: promisify(gzip) },
+] as const;
+
+const allowedMethods = "GET, HEAD, OPTIONS";
+
+/** Paths of the precompressed siblings written next to a build output. */
+export const getCompressedPaths = (path: string) =>
+  encodings.map(({ ext }) => `${path}${ext}`);
+
+/**
+ * Writes the `.br` and `.gz` siblings of a build output. Outputs are named
+ * after their content hash, existing siblings are kept as they are.
+ */
+export const writeCompressedAssets = (path: string, contents: Uint8Array) =>
+  Promise.all(encodings.map(async ({ ext, compress }) => {
+    const compressedPath = `${path}${ext}`;
+    if (await Deno.stat(compressedPath).then(() => true, () => false)) return;
+    await Deno.writeFile(compressedPath, await compress(contents));
+  }));
+
+const isAllowedOrigin = (cors: CorsOptions, origin: string) =>
+  typeof cors.origin === "function"
+    ? cors.origin(origin)
+    : Array.isArray(cors.origin)
+    ? cors.origin.includes(origin)
+    : cors.origin === origin;
+
+const isOriginDependent = (cors: CorsOptions | false | undefined) =>
+  !!cors && ((cors.origin ?? "*") !== "*" || !!cors.credentials);
+
+const getCorsHeaders = (
+  request: Request,
+  cors: CorsOptions | false | undefined,
+): Record<string, string> => {
+  if (!cors) return {};
+  if (!isOriginDependent(cors)) return { "Access-Control-Allow-Origin": "*" };
+  const origin = request.headers.get("Origin");
+  if (!origin || !isAllowedOrigin(cors, origin)) return {};
+  return {
+    "Access-Control-Allow-Origin": origin,
+    ...(cors.credentials ? { "Access-Control-Allow-Credentials": "true" } : {}),
+  };
+};
+
+const getPreflightHeaders = (
+  request: Request,
+  cors: CorsOptions | false | undefined,
+): Record<string, string> => {
+  const requestHeaders = request.headers.get("Access-Control-Request-Headers");
+  const allowHeaders = cors ? cors.headers?.join(", ") ?? requestHeaders : null;
+  return {
+    "Access-Control-Allow-Methods": allowedMethods,
+    ...(allowHeaders ? { "Access-Control-Allow-Headers": allowHeaders } : {}),
+    ...(cors && cors.maxAge !== undefined
+      ? { "Access-Control-Max-Age": String(cors.maxAge) }
+      : {}),
+  };
+};
+
+/**
+ * Serves a build output of `directory`, preferring its precompressed
+ * siblings when accepted, with conditional requests and `HEAD` support.
+ * Ids resolving outside of `directory` are rejected.
+ */
+export const serveAsset = async (
+  directory: string,
+  request: Request,
+  id: string,
+  options?: { cors?: CorsOptions | false },
+): Promise<Response> => {
+  const corsHeaders = getCorsHeaders(request, options?.cors);
+  const vary = [
+    "Accept-Encoding",
+    ...(isOriginDependent(options?.cors) ? ["Origin"] : []),
+  ].join(", ");
+  if (request.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        ...corsHeaders,
+        ...getPreflightHeaders(request, options?.cors),
+        Vary: vary,
+      },
+    });
+  }
+  if (request.method !== "GET" && request.method !== "HEAD") {
+    return new Response(null, {
+      status: 405,
+      headers: { Allow: allowedMethods },
+    });
+  }
+
+  const path = (() => {
+    try {
+      return join(directory, decodeURIComponent(id));
+    } catch {
+      return null;
+    }
+  })();
+  if (!path?.startsWith(join(directory, "/"))) {
+    return new Response(null, { status: 400 });
+  }
+
+  const preferred = acceptsEncodings(
+    request,
+    ...encodings.map(({ name }) => name),
+    "identity",
+  );
+  const candidates = [
+    ...encodings
+      .filter(({ name }) => name === preferred)
+      .map(({ name, ext }) => ({ encoding: name, path: `${path}${ext}` })),
+    { encoding: null, path },
+  ];
+  for (const candidate of candidates) {
+    const file = await Deno.open(candidate.path).catch(() => null);
+    if (!file) continue;
+    const fileInfo = await file.stat();
+    if (!fileInfo.isFile) {
+      file.close();
+      continue;
+    }
+    const etag = await eTag(fileInfo);
+    const headers: Record<string, string> = {
+      ...corsHeaders,
+      "Cache-Control": "public, max-age=31536000, immutable",
+      Vary: vary,
+      ...(etag ? { ETag: etag } : {}),
+    };
+    if (!ifNoneMatch(request.headers.get("If-None-Match"), etag)) {
+      file.close();
+      return new Response(null, { status: 304, headers });
+    }
+    Object.assign(headers, {
+      "Content-Type": contentType(extname(path)) ??
+        "application/octet-stream",
+      "Content-Length": String(fileInfo.size),
+      ...(candidate.encoding ? { "Content-Encoding": candidate.encoding } : {}),
+    });
+    if (request.method === "HEAD") {
+      file.close();
+      return new Response(null, { headers });
+    }
+    return new Response(file.readable, { headers });
+  }
+  return new Response(null, { status: 404 });
+};
@@ -0,0 +1,324 @@
+import type * as Esbuild from "esbuild-types";
+import { fromFileUrl } from "@std/path/from-file-url";
+import { parse } from "acorn-loose";
+import type { UseDirective } from "./directives.ts";
+
+/** Imports marking a module as usable on one side of the boundary only. */
+export const boundaryMarkers = {
+  server: [
+    "server-only",
+    "@bureaudouble/rsc-engine/server-only",
+    import.meta.resolve("./server-only.ts"),
+  ],
+  client: [
+    "client-only",
+    "@bureaudouble/rsc-engine/client-only",
+    import.meta.resolve("./client-only.ts"),
+  ],
+};
+
+interface Span {
+  start: { line: number; character: number };
+}
+
+export interface BoundaryModule {
+  specifier: string;
+  directive: UseDirective;
+  mediaType: string;
+  dependencies?: {
+    specifier: string;
+    code?: { specifier?: string; span?: Span };
+  }[];
+}
+
+export interface BoundaryGraph<T extends BoundaryModule> {
+  modules: T[];
+  serverRoots: T[];
+  clientRoots: T[];
+  getDependencyModule: (
+    dependency: NonNullable<T["dependencies"]>[number],
+  ) => T | undefined;
+  /** Export names of a "use server" module, from the server build. */
+  getServerExports: (module: T) => string[] | undefined;
+  getFile: (module: T) => string;
+}
+
+type Diagnostic = Esbuild.PartialMessage;
+
+const loaders: Record<string, Esbuild.Loader> = {
+  TSX: "tsx",
+  JSX: "jsx",
+  JavaScript: "js",
+  TypeScript: "ts",
+};
+
+const getLocation = (
+  file: string,
+  source: string,
+  index: number,
+  length = 0,
+): Esbuild.PartialMessage["location"] => {
+  const lineStart = source.lastIndexOf("\n", index - 1) + 1;
+  const lineEnd = source.indexOf("\n", index);
+  return {
+    file,
+    line: source.slice(0, lineStart).split("\n").length,
+    column: index - lineStart,
+    length,
+    lineText: source.slice(lineStart, lineEnd === -1 ? undefined : lineEnd),
+  };
+};
+
+const getSpanLocation = (file: string, source: string, span?: Span) => {
+  if (!span) return { file };
+  const lineStart = source.split("\n").slice(0, span.start.line)
+    .reduce((index, line) => index + line.length + 1, 0);
+  return getLocation(file, source, lineStart + span.start.character);
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+type Node = { type: string; [k: string]: any };
+
+// Type annotations are stripped before parsing, the locations are then
+// searched for in the original source.
+const parseProgram = async (
+  esbuild: typeof Esbuild,
+  source: string,
+  mediaType: string,
+) => {
+  const { code } = await esbuild.transform(source, {
+    loader: loaders[mediaType] ?? "ts",
+    format: "esm",
+    jsx: "automatic",
+  });
+  return parse(code, { ecmaVersion: "latest", sourceType: "module" }) as Node;
+};
+
+const isAsyncFunction = (node: Node) =>
+  ["FunctionDeclaration", "FunctionExpression", "ArrowFunctionExpression"]
+    .includes(node.type) && node.async && !node.generator;
+
+// Exports of a "use server" module that are known not to be async functions.
+// Values the parser can not tell, calls or re-exports, are trusted.
+const findInvalidServerExports = (program: Node, exportNames: string[]) => {
+  const declarations = new Map<string, Node | null>();
+  for (const statement of program.body) {
+    const declaration = statement.type === "ExportNamedDeclaration"
+      ? statement.declaration
+      : statement;
+    if (declaration?.type === "VariableDeclaration") {
+      declaration.declarations.forEach((declarator: Node) =>
+        declarator.id?.type === "Identifier" &&
+        declarations.set(declarator.id.name, declarator.init)
+      );
+    } else if (
+      ["FunctionDeclaration", "ClassDeclaration"].includes(declaration?.type)
+    ) {
+      declarations.set(declaration.id?.name, declaration);
+    }
+  }
+  const exported = new Map<string, Node | null | undefined>();
+  for (const statement of program.body) {
+    if (statement.type === "ExportDefaultDeclaration") {
+      exported.set("default", statement.declaration);
+    } else if (statement.type === "ExportNamedDeclaration") {
+      if (statement.source) continue;
+      statement.declaration?.declarations?.forEach((declarator: Node) =>
+        exported.set(declarator.id?.name, declarator.init)
+      );
+      if (statement.declaration?.id) {
+        exported.set(statement.declaration.id.name, statement.declaration);
+      }
+      statement.specifiers?.forEach((specifier: Node) =>
+        exported.set(
+          specifier.exported?.name,
+          declarations.get(specifier.local?.name),
+        )
+      );
+    }
+  }
+  const isUnknown = (node: Node) =>
+    ["CallExpression", "Identifier", "AwaitExpression"].includes(node.type);
+  return exportNames.flatMap((name) => {
+    const node = exported.get(name);
+    if (!node || isUnknown(node) || isAsyncFunction(node)) return [];
+    const kind = node.type.includes("Function")
+      ? "a non-async function"
+      : node.type.startsWith("Class")
+      ? "a class"
+      : "a value";
+    return [{ name, kind }];
+  });
+};
+
+const walk = (node: Node, visit: (node: Node) => void) => {
+  if (!node || typeof node.type !== "string") return;
+  visit(node);
+  for (const value of Object.values(node)) {
+    if (Array.isArray(value)) value.forEach((child) => walk(child, visit));
+    else if (value && typeof value === "object") walk(value, visit);
+  }
+};
+
+// Whether the global `Deno` is used, rather than a local binding of that name.
+const usesDeno = (program: Node) => {
+  let used = false;
+  let declared = false;
+  walk(program, (node) => {
+    if (
+      node.type === "MemberExpression" && node.object?.type === "Identifier" &&
+      node.object.name === "Deno"
+    ) used = true;
+    if (
+      ["VariableDeclarator", "FunctionDeclaration", "ClassDeclaration"]
+          .includes(node.type) && node.id?.name === "Deno" ||
+      node.type.startsWith("Import") && node.local?.name === "Deno"
+    ) declared = true;
+  });
+  return used && !declared;
+};
+
+// Modules reached from `roots`, not crossing into the modules `isBoundary`
+// turns into references.
+const collect = <T extends BoundaryModule>(
+  graph: BoundaryGraph<T>,
+  roots: T[],
+  isBoundary: (module: T) => boolean,
+) => {
+  const seen = new Set<string>();
+  const modules: T[] = [];
+  const visit = (module: T) => {
+    if (seen.has(module.specifier)) return;
+    seen.add(module.specifier);
+    modules.push(module);
+    (module.dependencies ?? [])
+      .map((dependency) => graph.getDependencyModule(dependency))
+      .filter((dependency): dependency is T =>
+        !!dependency && !isBoundary(dependency)
+      )
+      .forEach(visit);
+  };
+  roots.forEach(visit);
+  return modules;
+};
+
+const readLocalSource = (module: BoundaryModule) =>
+  new URL(module.specifier).protocol === "file:"
+    ? Deno.readTextFile(fromFileUrl(module.specifier)).catch(() => null)
+    : Promise.resolve(null);
+
+/**
+ * Checks the client/server boundaries of a module graph: "use server"
+ * modules may only export async functions, `server-only` modules may not be
+ * imported from the client graph and `client-only` ones from the server
+ * graph. Local client modules using `Deno` are reported as warnings.
+ */
+export const validateBoundaries = async <T extends BoundaryModule>(
+  esbuild: typeof Esbuild,
+  graph: BoundaryGraph<T>,
+) => {
+  const errors: Diagnostic[] = [];
+  const warnings: Diagnostic[] = [];
+  const serverModules = collect(
+    graph,
+    graph.serverRoots,
+    (module) => module.directive === "client",
+  );
+  const clientModules = collect(
+    graph,
+    graph.clientRoots,
+    (module) => module.directive === "server",
+  );
+
+  const checkMarkers = async (
+    modules: T[],
+    forbidden: string[],
+    text: (specifier: string) => string,
+  ) => {
+    for (const module of modules) {
+      const imports = (module.dependencies ?? []).filter((dependency) =>
+        forbidden.includes(dependency.specifier) ||
+        forbidden.includes(dependency.code?.specifier ?? "")
+      );
+      if (imports.length === 0) continue;
+      const source = await readLocalSource(module) ?? "";
+      imports.forEach((dependency) =>
+        errors.push({
+          text: text(dependency.specifier),
+          location: getSpanLocation(
+            graph.getFile(module),
+            source,
+            dependency.code?.span,
+          ),
+        })
+      );
+    }
+  };
+  await checkMarkers(
+    clientModules,
+    boundaryMarkers.server,
+    (specifier) =>
+      `"${specifier}" marks this module as server only, but it is part of the client bundle`,
+  );
+  await checkMarkers(
+    serverModules,
+    boundaryMarkers.client,
+    (specifier) =>
+      `"${specifier}" marks this module as client only, but it is imported by a server component`,
+  );
+
+  await Promise.all([
+    ...graph.modules
+      .filter((module) => module.directive === "server")
+      .map(async (module) => {
+        const source = await readLocalSource(module);
+        const exportNames = graph.getServerExports(module);
+        if (!source || !exportNames) return;
+        const program = await parseProgram(esbuild, source, module.mediaType)
+          .catch(() => null);
+        if (!program) return;
+        findInvalidServerExports(program, exportNames).forEach(
+          ({ name, kind }) => {
+            const match = new RegExp(
+              name === "default"
+                ? "\\bexport\\s+default\\b"
+                : `\\bexport\\b[^;]*?\\b${escapeRegExp(name)}\\b`,
+            ).exec(source);
+            const index = match
+              ? match.index + match[0].length -
+                (name === "default" ? "default".length : name.length)
+              : 0;
+            errors.push({
+              text:
+                `"use server" modules may only export async functions, "${name}" is ${kind}`,
+              location: getLocation(
+                graph.getFile(module),
+                source,
+                index,
+                name.length,
+              ),
+            });
+          },
+        );
+      }),
+    ...clientModules.map(async (module) => {
+      const source = await readLocalSource(module);
+      if (!source || !/\bDeno\b/.test(source)) return;
+      const program = await parseProgram(esbuild, source, module.mediaType)
+        .catch(() => null);
+      if (!program || !usesDeno(program)) return;
+      warnings.push({
+        text: "Deno APIs are not available in the browser",
+        location: getLocation(
+          graph.getFile(module),
+          source,
+          Math.max(0, source.search(/\bDeno\s*\./)),
+          "Deno".length,
+        ),
+      });
+    }),
+  ]);
+  return { errors, warnings };
+};
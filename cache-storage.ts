@@ -0,0 +1,127 @@
+import { join } from "@std/path/join";
+import { getHashSync } from "@bureaudouble/scripted";
+
+/** Where the server cache keeps its entries, as strings. */
+export interface CacheStorage {
+  get: (key: string) => Promise<string | undefined>;
+  set: (key: string, value: string) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
+
+/** Entries kept in the memory of the process. */
+export const createMemoryCacheStorage = (): CacheStorage => {
+  const entries = new Map<string, string>();
+  return {
+    get: (key) => Promise.resolve(entries.get(key)),
+    set: (key, value) => Promise.resolve(void entries.set(key, value)),
+    delete: (key) => Promise.resolve(void entries.delete(key)),
+  };
+};
+
+/**
+ * Entries written to `directory`, one file per key. Files start with their
+ * key, files of colliding hashes are not mistaken for one another.
+ */
+export const createFsCacheStorage = (directory: string): CacheStorage => {
+  const getPath = (key: string) => join(directory, `${getHashSync(key)}.txt`);
+  const header = (key: string) => `${JSON.stringify(key)}\n`;
+  return {
+    get: async (key) => {
+      const content = await Deno.readTextFile(getPath(key)).catch(() => "");
+      return content.startsWith(header(key))
+        ? content.slice(header(key).length)
+        : undefined;
+    },
+    set: async (key, value) => {
+      await Deno.mkdir(directory, { recursive: true });
+      // Written aside then renamed, readers never see a partial entry.
+      const temporary = `${getPath(key)}.${crypto.randomUUID()}`;
+      await Deno.writeTextFile(temporary, header(key) + value);
+      await Deno.rename(temporary, getPath(key));
+    },
+    delete: (key) => Deno.remove(getPath(key)).catch(() => undefined),
+  };
+};
+
+// Structural type of `Deno.Kv`, only available with `--unstable-kv`.
+interface Kv {
+  get: (key: unknown[]) => Promise<{ value: unknown }>;
+  set: (key: unknown[], value: unknown) => Promise<unknown>;
+  delete: (key: unknown[]) => Promise<void>;
+}
+
+// Deno KV values are limited to 64 KiB, entries are split in chunks of at
+// most 3 bytes per character, stored under the id of the write.
+const kvChunkLength = 16_000;
+
+interface KvHead {
+  key: string;
+  id: string;
+  count: number;
+}
+
+/**
+ * Entries kept in Deno KV, shared by every instance of the app:
+ * `createKvCacheStorage(await Deno.openKv())`. Keys are hashed, KV keys are
+ * limited to 2 KiB; heads keep the key, colliding hashes are not mistaken for
+ * one another.
+ */
+export const createKvCacheStorage = (
+  kv: Kv,
+  prefix: string[] = ["rsc-engine", "cache"],
+): CacheStorage => {
+  const getKvKey = (key: string) => [...prefix, getHashSync(key)];
+  const getHead = async (key: string) => {
+    const head = (await kv.get(getKvKey(key))).value as KvHead | null;
+    return head?.key === key ? head : null;
+  };
+  const deleteChunks = (key: string, head: KvHead | null) =>
+    Promise.all(
+      Array.from(
+        { length: head?.count ?? 0 },
+        (_, i) => kv.delete([...getKvKey(key), head!.id, i]),
+      ),
+    );
+  return {
+    get: async (key) => {
+      const head = await getHead(key);
+      if (!head) return undefined;
+      const chunks = await Promise.all(
+        Array.from(
+          { length: head.count },
+          async (_, i) => (await kv.get([...getKvKey(key), head.id, i])).value,
+        ),
+      );
+      return chunks.every((chunk) => typeof chunk === "string")
+        ? chunks.join("")
+        : undefined;
+    },
+    set: async (key, value) => {
+      const previous = await getHead(key);
+      const head = {
+        key,
+        id: crypto.randomUUID(),
+        count: Math.ceil(value.length / kvChunkLength),
+      };
+      await Promise.all(
+        Array.from(
+          { length: head.count },
+          (_, i) =>
+            kv.set(
+              [...getKvKey(key), head.id, i],
+              value.slice(i * kvChunkLength, (i + 1) * kvChunkLength),
+            ),
+        ),
+      );
+      // The head is set last, readers never see a partial entry.
+      await kv.set(getKvKey(key), head);
+      await deleteChunks(key, previous);
+    },
+    delete: async (key) => {
+      const head = await getHead(key);
+      if (!head) return;
+      await kv.delete(getKvKey(key));
+      await deleteChunks(key, head);
+    },
+  };
+};
@@ -0,0 +1,145 @@
+import { getHashSync } from "@bureaudouble/scripted";
+import {
+  type CacheStorage,
+  createMemoryCacheStorage,
+} from "./cache-storage.ts";
+
+export interface CacheOptions {
+  /**
+   * Seconds an entry is served before it is computed again, `Infinity` keeps
+   * it until purged and `0` caches nothing.
+   */
+  revalidate?: number;
+  /** Tags purging the entry when given to `revalidateTag`. */
+  tags?: string[];
+}
+
+/** Exports of a route module caching its rendered payload. */
+export interface CacheModule {
+  revalidate?: number | false;
+  tags?: string[];
+}
+
+interface CacheEntry<T> {
+  value: T;
+  createdAt: number;
+  revalidate: number | null;
+  tags: string[];
+}
+
+let storage: CacheStorage = createMemoryCacheStorage();
+
+/** Storage of the server cache, in memory by default. */
+export const setCacheStorage = (next: CacheStorage) => void (storage = next);
+
+// Tags store the time they were last revalidated, the entries created before
+// are purged when read. No storage has to list its keys.
+const getTagKey = (tag: string) => `tag:${tag}`;
+
+/** Tag of the rendered payloads of a pathname, purged by `revalidatePath`. */
+export const getPathTag = (pathname: string) => `path:${pathname}`;
+
+/** Throws on a `revalidate` that is not a number of seconds, or `Infinity`. */
+export const assertRevalidate = (revalidate?: number) => {
+  if (revalidate !== undefined && !(revalidate >= 0)) {
+    throw new Error(
+      `[rsc-engine] revalidate must be 0 or more seconds, or Infinity: ${revalidate}`,
+    );
+  }
+};
+
+/** Value of a fresh entry, `undefined` when missing, expired or purged. */
+export const readCache = async <T>(
+  key: string,
+): Promise<{ value: T } | undefined> => {
+  const serialized = await storage.get(key);
+  if (serialized === undefined) return;
+  const entry: CacheEntry<T> = JSON.parse(serialized);
+  const isExpired = entry.revalidate !== null &&
+    Date.now() - entry.createdAt > entry.revalidate * 1000;
+  const revalidatedAt = isExpired
+    ? []
+    : await Promise.all(entry.tags.map((tag) => storage.get(getTagKey(tag))));
+  if (
+    isExpired ||
+    revalidatedAt.some((time) => time && Number(time) >= entry.createdAt)
+  ) {
+    await storage.delete(key);
+    return;
+  }
+  return { value: entry.value };
+};
+
+/**
+ * Stores a JSON serializable value, computed from `createdAt`: tags purged
+ * while it was computed purge it too. Nothing is stored with a `revalidate`
+ * of `0`, the entry would expire before it is read.
+ */
+export const writeCache = async <T>(
+  key: string,
+  value: T,
+  options?: CacheOptions,
+  createdAt = Date.now(),
+) => {
+  assertRevalidate(options?.revalidate);
+  if (options?.revalidate === 0) return;
+  await storage.set(
+    key,
+    JSON.stringify(
+      {
+        value,
+        createdAt,
+        // `Infinity` is not JSON, entries kept until purged store `null`.
+        revalidate: Number.isFinite(options?.revalidate)
+          ? options!.revalidate!
+          : null,
+        tags: options?.tags ?? [],
+      } satisfies CacheEntry<T>,
+    ),
+  );
+};
+
+const pending = new Map<string, Promise<unknown>>();
+
+/**
+ * Caches the results of a data fetcher by its arguments, which must be JSON
+ * serializable as its result. Pass a `key` when the function closes over
+ * variables, functions with the same source share their entries otherwise.
+ */
+export const cache = <A extends unknown[], R>(
+  fn: (...args: A) => R | Promise<R>,
+  options?: CacheOptions & { key?: string },
+) => {
+  assertRevalidate(options?.revalidate);
+  return async (...args: A): Promise<R> => {
+    if (options?.revalidate === 0) return await fn(...args);
+    const key = `data:${options?.key ?? getHashSync(fn.toString())}:${
+      JSON.stringify(args)
+    }`;
+    const cached = await readCache<R>(key);
+    if (cached) return cached.value;
+    // Concurrent calls of a missing entry share one computation.
+    if (!pending.has(key)) {
+      const createdAt = Date.now();
+      pending.set(
+        key,
+        Promise.resolve(fn(...args))
+          // A failed write is logged, the value is still returned.
+          .then(async (value) => (
+            await writeCache(key, value, options, createdAt)
+              .catch(console.error), value
+          ))
+          .finally(() => pending.delete(key)),
+      );
+    }
+    return await pending.get(key) as R;
+  };
+};
+
+/** Purges the entries tagged with `tag`, on every instance sharing storage. */
+export const revalidateTag = (tag: string) =>
+  storage.set(getTagKey(tag), String(Date.now()));
+
+/** Purges the cached payloads of the route rendered at `pathname`. */
+export const revalidatePath = (pathname: string) =>
+  revalidateTag(getPathTag(pathname));
@@ -0,0 +1,9 @@
+/**
+ * Marks the importing module as client only: the build fails when it is
+ * imported by a server component.
+ *
+ * ```ts
+ * import "@bureaudouble/rsc-engine/client-only";
+ * ```
+ */
+export {};
@@ -17,10 +17,15 @@ import {
   createFromReadableStream,
   encodeReply,
 } from "react-server-dom-esm/client.browser";
+// @deno-types="@types/react-dom"
+import { preloadModule } from "react-dom";
 // @deno-types="@types/react-dom/client"
 import { hydrateRoot } from "react-dom/client";
 import { rscStream } from "rsc-html-stream/client";
 import urlcat from "@bureaudouble/outils/urlcat.ts";
+import { getRuntimeConfig, updateRuntimeConfig } from "./runtime-config.ts";
+import { getRouteSignal } from "./navigation.ts";
+import { metadataTitleAttribute } from "./metadata.ts";
 
 const contentMap = new Map<string, ControlledRoot>();
 
@@ -80,18 +85,34 @@ class ErrorBoundary extends Component<
   }
 
   componentDidCatch(error: Error) {
+    // Redirects thrown by server components once the response was streaming.
+    const location = getRouteSignal(error)?.location;
+    if (location) return globalThis.location.replace(location);
     this.context.setError(error);
   }
 
   render() {
     if (this.state?.error) {
+      const stylesheets = Array.from(
+        globalThis.document.querySelectorAll('link[rel="stylesheet"]'),
+        (link) => link.getAttribute("href"),
+      ).filter((href): href is string => !!href);
       return (
         <html>
           <head>
-            <link rel="stylesheet" href="/styles/styles.css" />
+            {stylesheets.map((href) => (
+              <link
+                key={href}
+                rel="stylesheet"
+                href={href}
+                precedence="default"
+              />
+            ))}
           </head>
           <body className="p-4">
-            <h1 className="font-bold">Error</h1>
+            <h1 className="font-bold">
+              {getRouteSignal(this.state.error)?.status ?? "Error"}
+            </h1>
             <p>{this.context.error?.message}</p>
           </body>
         </html>
@@ -109,6 +130,13 @@ interface ReadableStreamOptions {
   callServer: (id: string, args: unknown[]) => Usable<any>;
 }
 
+const preloadLinkHeader = (response: Response) =>
+  response.headers
+    .get("Link")
+    ?.split(",")
+    .map((link) => /<([^>]+)>;\s*rel=modulepreload/.exec(link)?.[1])
+    .forEach((href) => href && preloadModule(href));
+
 let pid: number;
 const timeConstant = 10 * 1000;
 const progressHandler = () => {
@@ -144,15 +172,26 @@ export const useNavigation = () => {
       const abortController = new AbortController();
       const signal = abortController.signal;
       const endProgress = progressHandler();
-      const endpoint = globalThis.location.pathname.startsWith("/admin")
-        ? "/admin/actions"
-        : "/actions";
-      const response = await fetch(urlcat(endpoint, { rsc_action_id: id }), {
-        method: "POST",
-        signal,
-        headers: { accept: "text/x-component" },
-        body: await encodeReply(args),
-      });
+      const { actionEndpoint } = getRuntimeConfig();
+      const response = await fetch(
+        urlcat(actionEndpoint, { rsc_action_id: id }),
+        {
+          method: "POST",
+          signal,
+          headers: { accept: "text/x-component" },
+          body: await encodeReply(args),
+        },
+      );
+      // Errors thrown by the action itself come in the Flight payload, other
+      // failures have no payload to read.
+      if (!response.ok) {
+        endProgress();
+        throw new Error(
+          `Server action ${id} failed: ${response.status} ${
+            await response.text() || response.statusText
+          }`,
+        );
+      }
       const redirect = response.headers.get("x-rsc-redirect");
       if (redirect && redirect !== globalThis.location.hostname) {
         contentMap.clear();
@@ -177,7 +216,9 @@ export const useNavigation = () => {
         ),
       });
       startTransition(() => cacheSetComponent(contentMap.get(pathname)!));
-      const value = (await actionResult)._value;
+      // Rejects with the error thrown by the action, its message redacted in
+      // production but its `digest` kept.
+      const value = await (await actionResult)._value;
       if (typeof value === "object") {
         if ("revalidatePath" in value) {
           contentMap.delete(value.revalidatePath);
@@ -205,6 +246,11 @@ export const useNavigation = () => {
         const signal = abortController.signal;
         const headers = { Accept: "text/x-component" };
         const response = await fetch(path, { signal, headers });
+        if (!updateRuntimeConfig(response)) {
+          globalThis.location.href = response.url;
+          return;
+        }
+        preloadLinkHeader(response);
         const redirect = response.headers.get("x-rsc-redirect");
         if (redirect && redirect !== globalThis.location.hostname) {
           contentMap.clear();
@@ -285,6 +331,14 @@ export const useNavigation = () => {
   }, []);
 
   useEffect(() => void globalThis.scrollTo(0, 0), [component]);
+  // `document.title` is the first `<title>`: the one of the route metadata
+  // goes before the ones a layout renders in its own `<head>`.
+  useEffect(() => {
+    const title = document.querySelector(`title[${metadataTitleAttribute}]`);
+    if (title) {
+      document.head.insertBefore(title, document.head.querySelector("title"));
+    }
+  }, [component]);
 
   return use(
     (
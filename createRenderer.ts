@@ -1,5 +1,5 @@
 // @deno-types="@types/react"
-import { createElement } from "react";
+import { createElement, Fragment } from "react";
 // @deno-types="@types/react-dom/server"
 import { renderToReadableStream as renderHTMLToReadableStream } from "react-dom/server.edge";
 import {
@@ -12,51 +12,223 @@ import { fromFileUrl } from "@std/path/from-file-url";
 import { toFileUrl } from "@std/path/to-file-url";
 import { join } from "@std/path/join";
 import urlcat from "@bureaudouble/outils/urlcat.ts";
+import { getHashSync } from "@bureaudouble/scripted";
+import { STATUS_TEXT, type StatusCode } from "@std/http/status";
+import { remapErrorStack } from "./sourcemap.ts";
+import {
+  getRuntimeConfigScript,
+  type RuntimeConfig,
+  runtimeConfigHeader,
+} from "./runtime-config.ts";
+import { renderMetadata, type ResolvedMetadata } from "./metadata.ts";
+import {
+  type CacheOptions,
+  getPathTag,
+  readCache,
+  writeCache,
+} from "./cache.ts";
+import {
+  getRouteSignal,
+  getRouteSignalDigest,
+  type RouteSignal,
+} from "./navigation.ts";
+
+export interface ServerActionManifest {
+  [actionId: string]: { specifier: string; exportName: string };
+}
+
+/** Called with the errors thrown by server actions, before they are sent. */
+export type ActionErrorHandler = (
+  error: unknown,
+  info: { request: Request; actionId: string; digest: string },
+) => void | Promise<void>;
+
+const redactedMessage =
+  "An error occurred in a server action, its digest identifies it in the server logs.";
+
+// Digest correlating the error received by the client with the server logs.
+const getErrorDigest = (error: unknown) =>
+  getHashSync(
+    error instanceof Error ? `${error.message}\n${error.stack}` : String(error),
+  );
+
+// Errors thrown by actions travel through the Flight stream and are thrown
+// again where the client called the action. The React server build always
+// sends the message and stack, they are replaced when `redact`.
+const toActionError = (error: unknown, digest: string, redact?: boolean) => {
+  const actionError = redact || !(error instanceof Error)
+    ? new Error(redact ? redactedMessage : String(error))
+    : error;
+  if (redact) actionError.stack = "";
+  return Object.assign(actionError, { digest });
+};
+
+/** Route handlers answering the pages that threw a route signal or error. */
+export interface RouteFallbacks {
+  notFound?: (ctx: any) => Promise<Response>;
+  error?: (ctx: any) => Promise<Response>;
+}
+
+// Flight payloads may hold binary rows, they are cached as base64.
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+// Signals thrown once the HTML is streaming can no longer change the status,
+// the document gets a meta refresh for redirects and is kept out of indexes
+// otherwise. The client also handles them from the error digest.
+const injectSignalMeta = (getSignal: () => RouteSignal | undefined) => {
+  const encoder = new TextEncoder();
+  let injected = false;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+      const signal = getSignal();
+      if (!signal || injected) return;
+      injected = true;
+      controller.enqueue(encoder.encode(
+        signal.location
+          ? `<meta http-equiv="refresh" content="0;url=${
+            escapeAttribute(signal.location)
+          }">`
+          : `<meta name="robots" content="noindex">`,
+      ));
+    },
+  });
+};
 
 export const createRenderer = (
   clientRsc: {
     hasClientBuildFinished: () => Promise<any>;
     getBootstrapModules: () => Promise<string[]>;
+    getBuildId: () => Promise<string>;
+    getServerActions: () => Promise<ServerActionManifest>;
+    sourcemap?: boolean;
+    redactErrors?: boolean;
+    onError?: ActionErrorHandler;
+    bootstrapScriptContent?: string;
+    runtimeConfig?: RuntimeConfig;
     pathTransformStream: (
       stream: ReadableStream,
     ) => Promise<ReadableStream<Uint8Array>>;
   },
   moduleBaseURL: string,
 ) =>
-(importFn: () => any, state?: any) => {
+(
+  importFn: () => any,
+  state?: any,
+  options?: {
+    getClientAssets?: () => Promise<{
+      stylesheets: string[];
+      modulepreloads: string[];
+    }>;
+    fallbacks?: RouteFallbacks;
+    /** Metadata of the route merged across its layouts. */
+    getMetadata?: (ctx: any) => Promise<ResolvedMetadata>;
+    /** Caches the Flight payload of the GET requests of the route. */
+    cache?: CacheOptions;
+  },
+) => {
   const moduleBasePath = fromFileUrl(moduleBaseURL);
+  // Errors thrown from generated reference modules point back to the
+  // original sources in development.
+  const remapError = <T>(error: T) =>
+    clientRsc.sourcemap ? remapErrorStack(error) : Promise.resolve(error);
+  const actionErrors = new WeakSet<object>();
+  const handleActionError = async (
+    error: unknown,
+    request: Request,
+    actionId: string,
+  ) => {
+    const remapped = await remapError(error);
+    const digest = getErrorDigest(remapped);
+    console.error(
+      `[rsc-engine] action ${actionId} failed (${digest})`,
+      remapped,
+    );
+    await Promise.resolve(
+      clientRsc.onError?.(remapped, { request, actionId, digest }),
+    ).catch(console.error);
+    const actionError = toActionError(remapped, digest, clientRsc.redactErrors);
+    actionErrors.add(actionError);
+    // Handled by React once it serializes the action result.
+    const rejected = Promise.reject(actionError);
+    rejected.catch(() => null);
+    return { _value: rejected };
+  };
+  const getActionHref = ({ specifier }: { specifier: string }) =>
+    URL.canParse(specifier)
+      ? specifier
+      : toFileUrl(join(Deno.cwd(), specifier)).href;
   return async (ctx: any) => {
     Object.assign(ctx.state, state ?? {});
     const req = ctx.request as Request;
     await clientRsc.hasClientBuildFinished();
     let redirect: { url: string; status: number } | undefined;
-    const rscActionResult = req.method === "POST" &&
-        req.headers.get("Accept") === "text/x-component" &&
-        !new URL(req.url).searchParams.has("x-rsc-redirected")
-      ? {
-        _value: await (async () => {
-          const contentType = req.headers.get("Content-Type");
-          const data = contentType?.startsWith("multipart/form-data")
-            ? await req.formData()
-            : await req.text();
-          const actionArgs = data
-            ? await decodeReply(data, moduleBasePath)
-            : [];
-          const [relativePath, exportName] = decodeURIComponent(
-            new URL(req.url).searchParams.get("rsc_action_id")!,
-          ).split("#");
-          const href = URL.canParse(relativePath)
-            ? relativePath
-            : toFileUrl(join(Deno.cwd(), relativePath)).href;
-          const { [exportName]: fn } = href ? await import(href) : {};
-          ctx.state.redirect = (
-            url: string,
-            options?: { status?: number },
-          ) => (redirect = { url, status: 307, ...options ?? {} });
-          return await ctx.state.routeStorage?.run(ctx, fn, ...actionArgs) ??
-            fn?.(...actionArgs);
-        })(),
-      }
+    const isActionRequest = req.method === "POST" &&
+      req.headers.get("Accept") === "text/x-component" &&
+      !new URL(req.url).searchParams.has("x-rsc-redirected");
+    const actionId = new URL(req.url).searchParams.get("rsc_action_id");
+    if (isActionRequest && !actionId) {
+      return new Response("Missing rsc_action_id", { status: 400 });
+    }
+    const actions = isActionRequest ? await clientRsc.getServerActions() : {};
+    const getAction = (id: string) =>
+      Object.hasOwn(actions, id) ? actions[id] : undefined;
+    const action = isActionRequest ? getAction(actionId!) : undefined;
+    if (isActionRequest && !action) {
+      return new Response("Unknown server action", { status: 404 });
+    }
+    const rscActionResult = action
+      ? await (async () => {
+        const contentType = req.headers.get("Content-Type");
+        const data = contentType?.startsWith("multipart/form-data")
+          ? await req.formData()
+          : await req.text();
+        // Server references of the reply are looked up in the manifest too,
+        // a request cannot name other modules.
+        const actionArgs = data
+          ? await decodeReply(data, (id: string) => {
+            const reference = getAction(id);
+            if (!reference) throw new Error(`Unknown server action ${id}`);
+            return {
+              specifier: getActionHref(reference),
+              name: reference.exportName,
+            };
+          })
+          : [];
+        const { [action.exportName]: fn } = await import(
+          getActionHref(action)
+        );
+        if (typeof fn !== "function") {
+          throw new Error(`Server action ${actionId} is not a function`);
+        }
+        ctx.state.redirect = (
+          url: string,
+          options?: { status?: number },
+        ) => (redirect = { url, status: 307, ...options ?? {} });
+        return await ctx.state.routeStorage?.run(ctx, fn, ...actionArgs) ??
+          fn?.(...actionArgs);
+      })().then(
+        (_value) => ({ _value }),
+        (error) => {
+          const signal = getRouteSignal(error);
+          if (!signal?.location) {
+            return handleActionError(error, req, actionId!);
+          }
+          redirect = { url: signal.location, status: signal.status };
+          return null;
+        },
+      )
       : null;
 
     if (redirect) {
@@ -74,40 +246,206 @@ export const createRenderer = (
         });
     }
 
-    const node = rscActionResult ?? (await (await importFn()).default(ctx));
-    const rscStreamPromise = Promise.resolve(
-      renderToReadableStream(node, moduleBasePath),
+    const isRscRequest = req.headers.get("Accept") === "text/x-component";
+    // Answers a page that threw before its response started: redirects,
+    // the `not-found` or `error` route component, or the bare status.
+    const respondToPageError = async (error: unknown) => {
+      const signal = getRouteSignal(error);
+      if (signal?.location) {
+        return isRscRequest && URL.canParse(signal.location)
+          ? new Response(null, {
+            headers: { "x-rsc-redirect": signal.location },
+          })
+          : new Response(null, {
+            status: signal.status,
+            headers: { Location: signal.location },
+          });
+      }
+      const status = signal?.status ?? 500;
+      const fallback = status === 404
+        ? options?.fallbacks?.notFound
+        : options?.fallbacks?.error;
+      return await fallback?.({
+        ...ctx,
+        state: { ...ctx.state },
+        status,
+        error,
+      }) ?? new Response(STATUS_TEXT[status as StatusCode] ?? null, { status });
+    };
+
+    // The payload of a cached route is shared by its RSC and HTML responses,
+    // fallbacks rendered with a status of their own are not cached. It links
+    // the client chunks of its build, other builds do not read it.
+    const url = new URL(req.url);
+    const cacheKey = options?.cache && req.method === "GET" &&
+        !rscActionResult && !ctx.status
+      ? `page:${await clientRsc.getBuildId()}:${url.pathname}${url.search}`
+      : undefined;
+    const cached = cacheKey ? await readCache<string>(cacheKey) : undefined;
+    const renderedAt = Date.now();
+
+    // `generateMetadata` may throw `notFound()` too, before the page renders.
+    const metadata = rscActionResult || cached
+      ? undefined
+      : await Promise.resolve(options?.getMetadata?.(ctx)).catch((
+        error: unknown,
+      ) => ({ error }));
+    if (metadata && "error" in metadata) {
+      if (!getRouteSignal(metadata.error)) {
+        remapError(metadata.error).then(console.error);
+      }
+      return respondToPageError(metadata.error);
+    }
+
+    // Deferred by the route context until the page component returned or
+    // threw, the response status is known before anything is streamed. Other
+    // components are answered right away.
+    const page = Promise.withResolvers<{ error: unknown } | null>();
+    let isPageDeferred = false;
+    ctx.state.deferPage = () => ((isPageDeferred = true), page.resolve);
+    // Signals thrown once the response is streaming, by components nested in
+    // the page or suspended.
+    let lateSignal: RouteSignal | undefined;
+    let hasRenderErrors = false;
+
+    // Links are hoisted into the head by React, stylesheets with a
+    // precedence also suspend RSC navigations until they are loaded.
+    const { stylesheets, modulepreloads } = rscActionResult
+      ? { stylesheets: [], modulepreloads: [] }
+      : await options?.getClientAssets?.() ??
+        { stylesheets: [], modulepreloads: [] };
+    const node = rscActionResult ?? createElement(
+      Fragment,
+      null,
+      ...metadata ? renderMetadata(metadata, req.url) : [],
+      ...stylesheets.map((href) =>
+        createElement("link", {
+          key: href,
+          rel: "stylesheet",
+          href,
+          precedence: "default",
+        })
+      ),
+      ...modulepreloads.map((href) =>
+        createElement("link", { key: href, rel: "modulepreload", href })
+      ),
+      await (await importFn()).default(ctx),
     );
+    if (!isPageDeferred) page.resolve(null);
+    const renderedStream: ReadableStream = cached
+      ? ReadableStream.from([fromBase64(cached.value)])
+      : await Promise.resolve(renderToReadableStream(node, moduleBasePath, {
+        onError: (error: unknown) => {
+          hasRenderErrors = true;
+          // Errors thrown before the page returned settle it, the ones
+          // outside of the page too.
+          page.resolve({ error });
+          if (getRouteSignal(error)) {
+            lateSignal ??= getRouteSignal(error);
+            return getRouteSignalDigest(error);
+          }
+          if (error instanceof Error && actionErrors.has(error)) {
+            return (error as Error & { digest: string }).digest;
+          }
+          remapError(error).then(console.error);
+        },
+      }));
+    // The rendered payload is read to its end aside, to be cached and to
+    // settle a page that never rendered, under a layout that did not render
+    // its children.
+    const isRendered = !rscActionResult && !cached;
+    const [rscStream, payloadStream] = isRendered
+      ? renderedStream.tee()
+      : [renderedStream];
+    const chunks: Uint8Array[] = [];
+    const payloadReading = new AbortController();
+    const payload = payloadStream?.pipeTo(
+      new WritableStream({
+        write: (chunk) => void (cacheKey && chunks.push(chunk)),
+      }),
+      { signal: payloadReading.signal },
+    );
+    payload?.then(() => page.resolve(null), () => page.resolve(null));
+    const pageError = isRendered ? await page.promise : null;
+    if (pageError) {
+      payloadReading.abort();
+      rscStream.cancel().catch(() => null);
+      return respondToPageError(pageError.error);
+    }
+    // Stored once complete, unless it holds errors or route signals.
+    if (cacheKey && payload) {
+      payload.then(async () =>
+        hasRenderErrors ? undefined : writeCache(
+          cacheKey,
+          toBase64(new Uint8Array(await new Blob(chunks).arrayBuffer())),
+          {
+            ...options?.cache,
+            tags: [getPathTag(url.pathname), ...options?.cache?.tags ?? []],
+          },
+          renderedAt,
+        )
+      ).catch(console.error);
+    }
+    const status = ctx.status ?? 200;
 
-    if (req.headers.get("Accept") === "text/x-component") {
-      return rscStreamPromise.then(clientRsc.pathTransformStream).then(
+    if (isRscRequest) {
+      return clientRsc.pathTransformStream(rscStream).then(
         (rscStream) =>
           new Response(rscStream, {
+            status,
             headers: {
               "Content-Type": "text/x-component",
               "Cache-Control": "no-cache",
+              ...(clientRsc.runtimeConfig
+                ? {
+                  [runtimeConfigHeader]: encodeURIComponent(
+                    JSON.stringify(clientRsc.runtimeConfig),
+                  ),
+                }
+                : {}),
+              ...(modulepreloads.length > 0
+                ? {
+                  Link: modulepreloads
+                    .map((href) => `<${href}>; rel=modulepreload`)
+                    .join(", "),
+                }
+                : {}),
             },
           }),
       );
     }
 
-    const htmlStreamPromise = rscStreamPromise.then(async (rscStream) => {
-      const [s1, s2] = rscStream.tee();
-      const data = createFromReadableStream(s1, { moduleBaseURL });
-      const htmlStream = await renderHTMLToReadableStream(
-        (createElement as any)(() => data),
-        { bootstrapModules: await clientRsc.getBootstrapModules() },
-      );
-      return htmlStream.pipeThrough(
-        injectRSCPayload(await clientRsc.pathTransformStream(s2)),
-      );
-    });
+    const [s1, s2] = rscStream.tee();
+    const data = createFromReadableStream(s1, { moduleBaseURL });
+    // The shell still fails on errors thrown outside of a Suspense boundary
+    // after the page settled, nothing is sent yet.
+    const htmlStream = await renderHTMLToReadableStream(
+      (createElement as any)(() => data),
+      {
+        bootstrapModules: await clientRsc.getBootstrapModules(),
+        bootstrapScriptContent: [
+          clientRsc.runtimeConfig &&
+          getRuntimeConfigScript(clientRsc.runtimeConfig),
+          clientRsc.bootstrapScriptContent,
+        ].filter(Boolean).join("\n") || undefined,
+      },
+    ).catch((error: unknown) => ({ error }));
+    if ("error" in htmlStream) {
+      s2.cancel().catch(() => null);
+      return respondToPageError(htmlStream.error);
+    }
 
-    return new Response(await htmlStreamPromise, {
-      headers: {
-        "Content-Type": "text/html; charset=utf-8",
-        "Cache-Control": "no-cache",
+    return new Response(
+      htmlStream
+        .pipeThrough(injectRSCPayload(await clientRsc.pathTransformStream(s2)))
+        .pipeThrough(injectSignalMeta(() => lateSignal)),
+      {
+        status,
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": "no-cache",
+        },
       },
-    });
+    );
   };
 };
@@ -0,0 +1,151 @@
+import { fromFileUrl } from "@std/path/from-file-url";
+import { eTag } from "@std/http/etag";
+import { RateLimiter } from "@teemukurki/rate-limiter";
+import { getHashSync } from "@bureaudouble/scripted";
+import { parse } from "acorn-loose";
+import type { DirectiveStore } from "./module-cache.ts";
+
+export type UseDirective = "default" | "error" | "client" | "server";
+
+export interface DirectiveWarning {
+  text: string;
+  line: number;
+  column: number;
+}
+
+export interface DirectiveResult {
+  directive: UseDirective;
+  warnings: DirectiveWarning[];
+}
+
+const directiveModes = {
+  "use client": "client",
+  "use server": "server",
+} as const;
+
+const skipTrivia = (source: string, index: number) => {
+  let i = index;
+  while (i < source.length) {
+    if (/\s/.test(source[i])) i++;
+    else if (source.startsWith("//", i)) {
+      const end = source.indexOf("\n", i);
+      i = end === -1 ? source.length : end + 1;
+    } else if (source.startsWith("/*", i)) {
+      const end = source.indexOf("*/", i + 2);
+      i = end === -1 ? source.length : end + 2;
+    } else break;
+  }
+  return i;
+};
+
+/**
+ * Reads the directive prologue of a module: the string literal statements
+ * found before any other statement, skipping a BOM, a shebang and comments.
+ */
+export const parseDirectivePrologue = (source: string) => {
+  const directives: string[] = [];
+  let i = source.charCodeAt(0) === 0xfeff ? 1 : 0;
+  if (source.startsWith("#!", i)) {
+    const end = source.indexOf("\n", i);
+    i = end === -1 ? source.length : end + 1;
+  }
+  while (true) {
+    const start = skipTrivia(source, i);
+    const quote = source[start];
+    if (quote !== '"' && quote !== "'") return { directives, end: start };
+    const end = source.indexOf(quote, start + 1);
+    const value = source.slice(start + 1, end);
+    if (end === -1 || /[\n\\]/.test(value)) return { directives, end: start };
+    const next = skipTrivia(source, end + 1);
+    const crossedLine = source.slice(end + 1, next).includes("\n");
+    const isStatementEnd = next >= source.length || source[next] === ";" ||
+      (crossedLine && !/[.,([`+\-*/%<>=&|^?:!]/.test(source[next]));
+    if (!isStatementEnd) return { directives, end: start };
+    directives.push(value);
+    i = source[next] === ";" ? next + 1 : next;
+  }
+};
+
+// Top level "use client"/"use server" strings placed after other statements
+// are plain expressions and silently ignored by the engine; report them.
+const findMisplacedDirectives = (source: string, prologueEnd: number) => {
+  if (!/(["'])use (client|server)\1/.test(source.slice(prologueEnd))) {
+    return [];
+  }
+  const program: any = parse(source, {
+    ecmaVersion: "latest",
+    sourceType: "module",
+    locations: true,
+  });
+  return (program.body as any[])
+    .filter((statement) =>
+      statement.start >= prologueEnd &&
+      statement.type === "ExpressionStatement" &&
+      statement.expression.type === "Literal" &&
+      statement.expression.value in directiveModes
+    )
+    .map((statement): DirectiveWarning => ({
+      text:
+        `"${statement.expression.value}" must be placed before any other statement, it is ignored here`,
+      line: statement.loc.start.line,
+      column: statement.loc.start.column,
+    }));
+};
+
+export const parseUseDirective = (source: string): DirectiveResult => {
+  const { directives, end } = parseDirectivePrologue(source);
+  const directive = directives.find((v) => v in directiveModes) as
+    | keyof typeof directiveModes
+    | undefined;
+  return {
+    directive: directive ? directiveModes[directive] : "default",
+    warnings: findMisplacedDirectives(source, end),
+  };
+};
+
+const limiter = new RateLimiter({ tokensPerInterval: 60, interval: "second" });
+const directiveCache = new Map<
+  string,
+  { tag?: string; hash: string; result: DirectiveResult }
+>();
+
+/**
+ * Resolves the directive of a module, cached by content hash across rebuilds.
+ * Local files are only read again when their stat tag changed, remote
+ * modules are only fetched once per process. Results are also kept in the
+ * persistent `store`, when `frozen` remote modules are never fetched.
+ */
+export const getUseDirective = async (
+  specifier: string,
+  options?: { store?: DirectiveStore; frozen?: boolean },
+): Promise<DirectiveResult> => {
+  const cached = directiveCache.get(specifier);
+  const isLocal = new URL(specifier).protocol === "file:";
+  if (!isLocal && cached) return cached.result;
+  const tag = isLocal
+    ? await Deno.stat(fromFileUrl(specifier)).then(eTag).catch(() => undefined)
+    : undefined;
+  if (cached && tag && cached.tag === tag) return cached.result;
+
+  if (!isLocal && options?.frozen) {
+    throw new Error(
+      `[rsc-engine] --frozen: ${specifier} is not in the Deno cache`,
+    );
+  }
+  if (!isLocal) await limiter.removeTokens(1);
+  const response = await fetch(specifier).catch(console.error);
+  if (!response?.ok) {
+    if (options?.frozen) {
+      throw new Error(`[rsc-engine] --frozen: could not read ${specifier}`);
+    }
+    return { directive: "error", warnings: [] };
+  }
+  const source = await response.text();
+  const hash = getHashSync(source);
+  const result = cached?.hash === hash
+    ? cached.result
+    : options?.store?.get(hash) ?? parseUseDirective(source);
+  options?.store?.set(hash, result);
+  directiveCache.set(specifier, { tag, hash, result });
+  return result;
+};
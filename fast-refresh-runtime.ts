@@ -0,0 +1,51 @@
+import RefreshRuntime from "react-refresh/runtime";
+
+// One runtime per page, whichever chunk loads it first; the roots React
+// committed before are replayed so they can be refreshed too.
+const getRuntime = (): typeof RefreshRuntime => {
+  const global = globalThis as any;
+  if (global.__RSC_REFRESH_RUNTIME__) return global.__RSC_REFRESH_RUNTIME__;
+  RefreshRuntime.injectIntoGlobalHook(globalThis);
+  const hook = global.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+  hook?.renderers?.forEach((_: unknown, id: number) =>
+    hook.getFiberRoots?.(id)?.forEach((root: unknown) =>
+      hook.onCommitFiberRoot(id, root)
+    )
+  );
+  return (global.__RSC_REFRESH_RUNTIME__ = RefreshRuntime);
+};
+
+/**
+ * Registers the components exported by a module. `signature` lists the hooks
+ * the module calls, components are remounted instead of refreshed when it
+ * changed, their state would not match the new hooks.
+ */
+export const registerExports = (
+  namespace: Record<string, unknown>,
+  moduleId: string,
+  signature: string,
+) =>
+  Object.entries(namespace).forEach(([exportName, value]) => {
+    if (getRuntime().isLikelyComponentType(value)) {
+      getRuntime().setSignature(value, signature);
+      getRuntime().register(value, `${moduleId} ${exportName}`);
+    }
+  });
+
+/**
+ * Imports the rebuilt chunks of client modules and refreshes their mounted
+ * components in place. Resolves to `false` when one of them exports anything
+ * but components, its importers would keep the previous values.
+ */
+export const applyUpdate = async (chunks: string[]) => {
+  const namespaces = await Promise.all(
+    chunks.map((chunk) => import(chunk)),
+  );
+  const isBoundary = namespaces.every((namespace) =>
+    Object.values(namespace).every((value) =>
+      getRuntime().isLikelyComponentType(value)
+    )
+  );
+  if (isBoundary) getRuntime().performReactRefresh();
+  return isBoundary;
+};
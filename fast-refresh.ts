@@ -0,0 +1,74 @@
+import type * as Esbuild from "esbuild-types";
+import { dirname } from "@std/path/dirname";
+import { extname } from "@std/path/extname";
+import { toFileUrl } from "@std/path/to-file-url";
+
+const loaders: Record<string, Esbuild.Loader> = {
+  ".tsx": "tsx",
+  ".jsx": "jsx",
+  ".ts": "ts",
+  ".js": "js",
+};
+
+/**
+ * Inline script rendered before the bootstrap modules. React DOM only
+ * connects to a devtools hook existing when it is evaluated, this stand-in
+ * also records the mounted roots for the refresh runtime loaded later.
+ */
+export const refreshHookScript = `(() => {
+  if (globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__) return;
+  const renderers = new Map();
+  const roots = new Map();
+  globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__ = {
+    renderers,
+    supportsFiber: true,
+    inject: (renderer) => {
+      const id = renderers.size + 1;
+      renderers.set(id, renderer);
+      roots.set(id, new Set());
+      return id;
+    },
+    getFiberRoots: (id) => roots.get(id),
+    onScheduleFiberRoot: () => {},
+    onCommitFiberRoot: (id, root) => roots.get(id)?.add(root),
+    onCommitFiberUnmount: () => {},
+    onPostCommitFiberRoot: () => {},
+  };
+})();`;
+
+// Hooks called by a module, in order. Without a Babel transform there is no
+// signature per component as `$RefreshSig$` gives, one covers the module.
+const getHookSignature = (source: string) =>
+  (source.match(/\buse(?:[A-Z]\w*)?(?=\s*\()/g) ?? []).join(",");
+
+/**
+ * Appends the registration of their exports to the refresh runtime to the
+ * local "use client" modules listed by `getModulePaths`, so a rebuilt chunk
+ * can replace their components without losing state.
+ */
+export const createFastRefreshPlugin = (
+  getModulePaths: () => Set<string>,
+): Esbuild.Plugin => ({
+  name: "fast-refresh",
+  setup(build) {
+    build.onLoad({ filter: /\.(tsx|jsx|ts|js)$/ }, async ({ path }) => {
+      if (!getModulePaths().has(path)) return;
+      const source = await Deno.readTextFile(path);
+      const url = toFileUrl(path).href;
+      return {
+        contents: [
+          source,
+          `import * as _RSC_self from ${JSON.stringify(url)};`,
+          `import { registerExports as _RSC_registerExports } from ${
+            JSON.stringify(import.meta.resolve("./fast-refresh-runtime.ts"))
+          };`,
+          `_RSC_registerExports(_RSC_self, ${JSON.stringify(url)}, ${
+            JSON.stringify(getHookSignature(source))
+          });`,
+        ].join("\n"),
+        loader: loaders[extname(path)],
+        resolveDir: dirname(path),
+      };
+    });
+  },
+});
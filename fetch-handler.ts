@@ -0,0 +1,43 @@
+/** Route shape of the setup result, as used by `@fartlabs/rt`. */
+export interface Route {
+  match: { method?: string; pattern: URLPattern };
+  handle: (ctx: any) => Response | Promise<Response>;
+}
+
+/**
+ * Plain fetch handler. `next` answers the requests no route matched, a 404
+ * by default, adapters pass their framework's next middleware.
+ */
+export type FetchHandler = (
+  request: Request,
+  next?: () => Promise<Response>,
+) => Promise<Response>;
+
+const notFound = () =>
+  Promise.resolve(new Response("Not Found", { status: 404 }));
+
+/**
+ * Matches a request against `routes` in order and calls the first matching
+ * one with the context the routes expect: `request`, `url`, the pathname
+ * groups as `params`, a fresh `state` and `next`.
+ */
+export const createFetchHandler = (routes: Route[]): FetchHandler =>
+async (
+  request,
+  next = notFound,
+) => {
+  const url = new URL(request.url);
+  for (const route of routes) {
+    if (route.match.method && route.match.method !== request.method) continue;
+    const match = route.match.pattern.exec(url);
+    if (!match) continue;
+    return await route.handle({
+      request,
+      url,
+      params: match.pathname.groups,
+      state: {},
+      next,
+    });
+  }
+  return await next();
+};
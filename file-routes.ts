@@ -0,0 +1,208 @@
+// @deno-types="@types/react"
+import { createElement, Suspense } from "react";
+import { join } from "@std/path/join";
+import { toFileUrl } from "@std/path/to-file-url";
+import type { RouteErrorBoundary } from "./RouteErrorBoundary.tsx";
+// Kept in the module graph, the build ships it as a client reference.
+import "./RouteErrorBoundary.tsx";
+import { resolveMetadata } from "./metadata.ts";
+import { renderPage, settlesPage } from "./route-context.tsx";
+
+const extensions = [".tsx", ".ts", ".jsx", ".js"];
+
+/** Special files of a directory of the app, as file urls. */
+export interface RouteSegment {
+  layout?: string;
+  loading?: string;
+  error?: string;
+}
+
+export interface FileRoute {
+  pattern: string;
+  page: string;
+  /** Segments from the app directory down to the directory of the page. */
+  segments: RouteSegment[];
+}
+
+export interface FileRoutes {
+  routes: FileRoute[];
+  notFound?: string;
+}
+
+// `[id]` is a param, `[...slug]` a catch-all, doubled brackets make them
+// optional and `(group)` directories organize routes without a segment.
+const toPatternSegment = (name: string) => {
+  if (/^\(.+\)$/.test(name)) return null;
+  const [, optional, rest, param] = /^\[(\[)?(\.\.\.)?(\w+)\]?\]$/.exec(name) ??
+    [];
+  if (!param) return name.replace(/[:*?+(){}\\]/g, "\\$&");
+  return `:${param}${rest ? (optional ? "*" : "+") : optional ? "?" : ""}`;
+};
+
+// Static segments are matched before params, params before catch-alls.
+const getSegmentRanks = (pattern: string) =>
+  pattern.split("/").filter(Boolean).map((segment) =>
+    !segment.startsWith(":")
+      ? 0
+      : /[*+]$/.test(segment)
+      ? segment.endsWith("*") ? 3 : 2
+      : 1
+  );
+
+const compareRoutes = (a: FileRoute, b: FileRoute) => {
+  const [ranksA, ranksB] = [a.pattern, b.pattern].map(getSegmentRanks);
+  for (let i = 0; i < Math.min(ranksA.length, ranksB.length); i++) {
+    if (ranksA[i] !== ranksB[i]) return ranksA[i] - ranksB[i];
+  }
+  return ranksA.length - ranksB.length || a.pattern.localeCompare(b.pattern);
+};
+
+/**
+ * Scans an app directory for `page`, `layout`, `loading` and `error` files,
+ * and the `not-found` page at its root. Directories starting with `_` or `.`
+ * are left out.
+ */
+export const scanAppDirectory = (directory: string): FileRoutes => {
+  const routes: FileRoute[] = [];
+  let notFound: string | undefined;
+  const visit = (
+    path: string,
+    pathname: string[],
+    segments: RouteSegment[],
+  ) => {
+    const entries = [...Deno.readDirSync(path)];
+    const find = (name: string) => {
+      const entry = entries.find((entry) =>
+        entry.isFile && extensions.some((ext) => entry.name === name + ext)
+      );
+      return entry && toFileUrl(join(path, entry.name)).href;
+    };
+    const segment: RouteSegment = Object.fromEntries(
+      (["layout", "loading", "error"] as const)
+        .map((name) => [name, find(name)])
+        .filter(([, file]) => file),
+    );
+    if (segments.length === 0) notFound = find("not-found");
+    const page = find("page");
+    if (page) {
+      const pattern = join("/", ...pathname);
+      const duplicate = routes.find((route) => route.pattern === pattern);
+      if (duplicate) {
+        throw new Error(
+          `[rsc-engine] ${page} and ${duplicate.page} both route ${pattern}`,
+        );
+      }
+      routes.push({ pattern, page, segments: [...segments, segment] });
+    }
+    entries
+      .filter((entry) => entry.isDirectory && !/^[_.]/.test(entry.name))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((entry) => {
+        const name = toPatternSegment(entry.name);
+        visit(
+          join(path, entry.name),
+          name === null ? pathname : [...pathname, name],
+          [...segments, segment],
+        );
+      });
+  };
+  visit(directory, [], []);
+  return { routes: routes.sort(compareRoutes), notFound };
+};
+
+/** Files of the app the build needs in its module graph. */
+export const getFileRouteFiles = ({ routes, notFound }: FileRoutes) => [
+  ...new Set([
+    ...routes.flatMap(({ page, segments }) => [
+      page,
+      ...segments.flatMap((segment) => Object.values(segment)),
+    ]),
+    ...notFound ? [notFound] : [],
+  ]),
+];
+
+const clientReference = Symbol.for("react.client.reference");
+const isClientReference = (value: unknown) =>
+  (value as { $$typeof?: symbol } | null)?.$$typeof === clientReference;
+
+// Modules a composed route is made of, to look up their client assets.
+const fileRouteSources = new WeakMap<object, object[]>();
+export const getFileRouteSources = (module: object) =>
+  fileRouteSources.get(module);
+
+/**
+ * Route module of a page wrapped in the layouts, loading and error
+ * components of its segments, outermost first. The exports of the page, like
+ * `prerender`, are kept, its metadata is merged with the one of the layouts.
+ * Files are imported with `importModule`, which reloads the changed ones.
+ * Error segments are wrapped in the client reference of `RouteErrorBoundary`
+ * given by `getErrorBoundary`, a class component cannot render on the server.
+ */
+export const loadFileRoute = async (
+  route: FileRoute,
+  importModule: (file: string) => Promise<any>,
+  getErrorBoundary: () => Promise<typeof RouteErrorBoundary>,
+) => {
+  const load = (file?: string) => file ? importModule(file) : undefined;
+  const page = await importModule(route.page);
+  const segments = await Promise.all(
+    route.segments.map(async (segment) => ({
+      layout: await load(segment.layout),
+      loading: await load(segment.loading),
+      error: await load(segment.error),
+    })),
+  );
+  segments.forEach(({ error }, i) => {
+    if (error && !isClientReference(error.default)) {
+      throw new Error(
+        `[rsc-engine] ${
+          route.segments[i].error
+        } must be a "use client" module, error boundaries render on the client`,
+      );
+    }
+  });
+  const errorBoundary = segments.some(({ error }) => error)
+    ? await getErrorBoundary()
+    : undefined;
+  // Without a loading segment the response waits for the page, so its
+  // `notFound()` or `redirect()` still sets the response status.
+  const isStreamed = segments.some(({ loading }) => loading);
+  const Page = page.default;
+  const FileRoute = (ctx: any) => {
+    if (isStreamed) ctx.state.settlePage?.(null);
+    let node = isStreamed ? createElement(Page, ctx) : renderPage(Page, ctx);
+    for (const { layout, loading, error } of [...segments].reverse()) {
+      if (loading) {
+        node = createElement(Suspense, {
+          fallback: createElement(loading.default, ctx),
+        }, node);
+      }
+      if (error) {
+        node = createElement(errorBoundary!, {
+          key: new URL(ctx.request.url).pathname,
+          fallback: error.default,
+        }, node);
+      }
+      if (layout) node = createElement(layout.default, ctx, node);
+    }
+    return node;
+  };
+  Object.assign(FileRoute, { [settlesPage]: true });
+  const module = {
+    ...page,
+    default: FileRoute,
+    metadata: undefined,
+    generateMetadata: (ctx: any) =>
+      resolveMetadata([
+        ...segments.flatMap(({ layout }) => layout ? [layout] : []),
+        page,
+      ], ctx),
+  };
+  fileRouteSources.set(module, [
+    page,
+    ...segments.flatMap((segment) =>
+      Object.values(segment).filter((namespace) => namespace)
+    ),
+  ]);
+  return module;
+};
@@ -0,0 +1,55 @@
+import { fromFileUrl } from "@std/path/from-file-url";
+import { relative } from "@std/path/relative";
+
+export interface ImportMap {
+  imports?: Record<string, string>;
+  scopes?: Record<string, Record<string, string>>;
+}
+
+const isPathLike = (value: string) => /^\.{0,2}\//.test(value);
+
+/**
+ * Rewrites the relative addresses and keys of an import map resolved against
+ * `baseURL` so they resolve the same from an import map stored in `directory`.
+ */
+export const rebaseImportMap = (
+  importMap: ImportMap,
+  baseURL: string,
+  directory: string,
+): ImportMap => {
+  const rebase = (value: string) => {
+    if (!isPathLike(value)) return value;
+    const url = new URL(value, baseURL);
+    if (url.protocol !== "file:") return url.href;
+    const path = relative(directory, fromFileUrl(url));
+    const trailingSlash = value.endsWith("/") && !path.endsWith("/") ? "/" : "";
+    return `${path.startsWith(".") ? "" : "./"}${path}${trailingSlash}`;
+  };
+  const rebaseEntries = (map: Record<string, string> = {}) =>
+    Object.fromEntries(
+      Object.entries(map).map(([key, value]) => [rebase(key), rebase(value)]),
+    );
+  return {
+    imports: rebaseEntries(importMap.imports),
+    scopes: Object.fromEntries(
+      Object.entries(importMap.scopes ?? {}).map(([scope, map]) => [
+        rebase(scope),
+        rebaseEntries(map),
+      ]),
+    ),
+  };
+};
+
+/** Merges import maps stored in the same directory, later ones winning. */
+export const composeImportMaps = (...importMaps: ImportMap[]): ImportMap => ({
+  imports: Object.assign({}, ...importMaps.map((v) => v.imports ?? {})),
+  scopes: importMaps
+    .flatMap((v) => Object.entries(v.scopes ?? {}))
+    .reduce(
+      (scopes, [scope, map]) => ({
+        ...scopes,
+        [scope]: { ...scopes[scope], ...map },
+      }),
+      {} as Record<string, Record<string, string>>,
+    ),
+});
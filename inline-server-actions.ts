@@ -0,0 +1,460 @@
+import type * as Esbuild from "esbuild-types";
+import { parse } from "acorn-loose";
+import {
+  composeSourceMap,
+  type MappedChunk,
+  type SourceMap,
+} from "./sourcemap.ts";
+
+type Node = { type: string; start: number; end: number; [k: string]: any };
+type Edit = { start: number; end: number; chunks: MappedChunk[] };
+
+const functionTypes = [
+  "FunctionDeclaration",
+  "FunctionExpression",
+  "ArrowFunctionExpression",
+];
+
+const parseModule = (code: string): Node =>
+  parse(code, { ecmaVersion: "latest", sourceType: "module" }) as Node;
+
+const getChildren = (node: Node): Node[] =>
+  Object.entries(node)
+    .filter(([key]) => key !== "loc")
+    .flatMap(([, value]) => (Array.isArray(value) ? value : [value]))
+    .filter((value) => typeof value?.type === "string");
+
+const walk = (
+  node: Node,
+  visit: (node: Node, ancestors: Node[]) => boolean | void,
+  ancestors: Node[] = [],
+) => {
+  if (visit(node, ancestors) === false) return;
+  for (const child of getChildren(node)) {
+    walk(child, visit, [...ancestors, node]);
+  }
+};
+
+// Edited code is kept as chunks of the esbuild output, to compose its source
+// map once every edit is applied.
+const toText = (chunks: MappedChunk[]) => chunks.map((v) => v.text).join("");
+
+const sliceChunks = (chunks: MappedChunk[], start: number, end: number) => {
+  let offset = 0;
+  return chunks.flatMap(({ text, origin }) => {
+    const chunkStart = offset;
+    offset += text.length;
+    const from = Math.max(start, chunkStart) - chunkStart;
+    const to = Math.min(end, offset) - chunkStart;
+    return from < to
+      ? [{
+        text: text.slice(from, to),
+        origin: origin === undefined ? undefined : origin + from,
+      }]
+      : [];
+  });
+};
+
+const applyEdits = (chunks: MappedChunk[], edits: Edit[]) => {
+  // Insertions come before a replacement starting at the same offset.
+  const sorted = edits.toSorted((a, b) => a.start - b.start || a.end - b.end);
+  return [
+    ...sorted.flatMap((edit, i) => [
+      ...sliceChunks(chunks, sorted[i - 1]?.end ?? 0, edit.start),
+      ...edit.chunks,
+    ]),
+    ...sliceChunks(chunks, sorted.at(-1)?.end ?? 0, Infinity),
+  ];
+};
+
+const isFunction = (node: Node) => functionTypes.includes(node.type);
+
+const getPrologue = (statements: Node[]) => {
+  const prologue = statements.findIndex(
+    (statement) =>
+      statement.type !== "ExpressionStatement" ||
+      statement.expression.type !== "Literal" ||
+      typeof statement.expression.value !== "string",
+  );
+  return statements.slice(0, prologue === -1 ? statements.length : prologue);
+};
+
+const getDirectives = (node: Node): string[] =>
+  getPrologue(node.body?.type === "BlockStatement" ? node.body.body : [])
+    .map((statement) => statement.expression.value);
+
+const isInlineServerAction = (node: Node) =>
+  isFunction(node) && getDirectives(node).includes("use server");
+
+const getPatternNames = (node?: Node | null): string[] => {
+  switch (node?.type) {
+    case "Identifier":
+      return [node.name];
+    case "ObjectPattern":
+      return node.properties.flatMap((property: Node) =>
+        getPatternNames(
+          property.type === "RestElement" ? property.argument : property.value,
+        )
+      );
+    case "ArrayPattern":
+      return node.elements.flatMap(getPatternNames);
+    case "RestElement":
+      return getPatternNames(node.argument);
+    case "AssignmentPattern":
+      return getPatternNames(node.left);
+    default:
+      return [];
+  }
+};
+
+// Names declared by a function itself: its parameters and every binding of
+// its body, without descending into nested functions (block scoping is
+// ignored, which can only over-approximate what an action closes over).
+const getDeclaredNames = (fn: Node): Set<string> => {
+  const names = new Set<string>(fn.params.flatMap(getPatternNames));
+  if (fn.type === "FunctionExpression" && fn.id) names.add(fn.id.name);
+  walk(fn.body, (node) => {
+    if (node.type === "VariableDeclarator") {
+      getPatternNames(node.id).forEach((name) => names.add(name));
+    } else if (node.type === "CatchClause") {
+      getPatternNames(node.param).forEach((name) => names.add(name));
+    } else if (
+      node.type === "FunctionDeclaration" || node.type === "ClassDeclaration"
+    ) {
+      if (node.id) names.add(node.id.name);
+    }
+    if (isFunction(node)) return false;
+  });
+  return names;
+};
+
+// Names a function binds to functions or classes, which cannot be encrypted
+// into the arguments of an action closing over them.
+const getFunctionNames = (fn: Node): Set<string> => {
+  const names = new Set<string>();
+  walk(fn.body, (node) => {
+    if (
+      (node.type === "FunctionDeclaration" ||
+        node.type === "ClassDeclaration") && node.id
+    ) {
+      names.add(node.id.name);
+    } else if (
+      node.type === "VariableDeclarator" && node.id.type === "Identifier" &&
+      node.init &&
+      (isFunction(node.init) || node.init.type === "ClassExpression")
+    ) {
+      names.add(node.id.name);
+    }
+    if (isFunction(node)) return false;
+  });
+  return names;
+};
+
+// Offset of the first statement of the scope declaring a function, after its
+// directives, where the function can be registered before any use.
+const getScopeStart = (scope: Node | undefined, fallback: number) => {
+  if (!scope || !Array.isArray(scope.body)) return fallback;
+  return getPrologue(scope.body).at(-1)?.end ??
+    (scope.type === "Program" ? scope.start : scope.start + 1);
+};
+
+// Statements of a block, a loop head or a switch, whose `let`, `const`,
+// functions and classes are scoped to it.
+const getBlockStatements = (node: Node): Node[] => {
+  switch (node.type) {
+    case "BlockStatement":
+    case "StaticBlock":
+      return node.body;
+    case "SwitchStatement":
+      return node.cases.flatMap((switchCase: Node) => switchCase.consequent);
+    case "ForStatement":
+      return node.init ? [node.init] : [];
+    case "ForInStatement":
+    case "ForOfStatement":
+      return [node.left];
+    default:
+      return [];
+  }
+};
+
+// Names an ancestor block declares, with the ones bound to functions or
+// classes. Blocks of the module are not visible from the hoisted action.
+const getBlockNames = (node: Node) => {
+  const names = node.type === "CatchClause" ? getPatternNames(node.param) : [];
+  const functionNames: string[] = [];
+  for (const statement of getBlockStatements(node)) {
+    if (statement.type === "VariableDeclaration" && statement.kind !== "var") {
+      for (const { id, init } of statement.declarations) {
+        names.push(...getPatternNames(id));
+        if (
+          id.type === "Identifier" && init &&
+          (isFunction(init) || init.type === "ClassExpression")
+        ) {
+          functionNames.push(id.name);
+        }
+      }
+    } else if (
+      (statement.type === "FunctionDeclaration" ||
+        statement.type === "ClassDeclaration") && statement.id
+    ) {
+      names.push(statement.id.name);
+      functionNames.push(statement.id.name);
+    }
+  }
+  return { names, functionNames };
+};
+
+const getReferencedNames = (fn: Node): Set<string> => {
+  const names = new Set<string>();
+  const declared = new Set<string>();
+  walk(fn, (node, ancestors) => {
+    if (isFunction(node)) {
+      getDeclaredNames(node).forEach((name) => declared.add(name));
+    }
+    if (node.type !== "Identifier") return;
+    const parent = ancestors.at(-1);
+    const isKey = (parent?.type === "MemberExpression" &&
+      parent.property === node && !parent.computed) ||
+      (["Property", "MethodDefinition", "PropertyDefinition"].includes(
+        parent?.type ?? "",
+      ) && parent?.key === node && !parent.computed && !parent.shorthand) ||
+      (parent?.type === "LabeledStatement" ||
+        parent?.type === "BreakStatement" ||
+        parent?.type === "ContinueStatement") ||
+      (!!parent && isFunction(parent) && parent.id === node);
+    if (!isKey) names.add(node.name);
+  });
+  return new Set([...names].filter((name) => !declared.has(name)));
+};
+
+const rewriteSpecifiers = (
+  chunks: MappedChunk[],
+  rewriteSpecifier: (specifier: string) => string,
+) => {
+  const edits: Edit[] = [];
+  walk(parseModule(toText(chunks)), (node) => {
+    const source: Node | undefined = [
+        "ImportDeclaration",
+        "ExportNamedDeclaration",
+        "ExportAllDeclaration",
+        "ImportExpression",
+      ].includes(node.type)
+      ? node.source
+      : undefined;
+    if (source?.type !== "Literal" || typeof source.value !== "string") return;
+    const specifier = rewriteSpecifier(source.value);
+    if (specifier === source.value) return;
+    edits.push({
+      start: source.start,
+      end: source.end,
+      chunks: [{ text: JSON.stringify(specifier) }],
+    });
+  });
+  return applyEdits(chunks, edits);
+};
+
+/** Cheap pre-check run on every server module before parsing it. */
+export const hasInlineServerActions = (source: string) =>
+  /(["'])use server\1/.test(source);
+
+/**
+ * Hoists every function-level "use server" action of a server module into
+ * an exported `_RSC_action_<n>` function registered as a server reference
+ * under `actionModuleId`. Variables the action closes over are bound at the
+ * original site as one encrypted argument, decrypted again when the action
+ * runs, so they never reach the client in clear text. Closing over a function
+ * or a class is a build error, as are actions written as class methods,
+ * getters or setters. With `sourcemap`, the returned map points back to
+ * `sourcefile`.
+ */
+export const transformInlineServerActions = async (
+  esbuild: typeof Esbuild,
+  {
+    source,
+    loader,
+    actionModuleId,
+    rewriteSpecifier,
+    sourcefile,
+    sourcemap,
+  }: {
+    source: string;
+    loader: Esbuild.Loader;
+    actionModuleId: string;
+    rewriteSpecifier: (specifier: string) => string;
+    sourcefile?: string;
+    sourcemap?: boolean;
+  },
+): Promise<{ code: string; exportNames: string[]; map?: SourceMap }> => {
+  const transformed = await esbuild.transform(source, {
+    loader,
+    format: "esm",
+    jsx: "automatic",
+    sourcefile,
+    sourcemap: sourcemap ? "external" : false,
+  });
+  const output = (chunks: MappedChunk[], exportNames: string[]) => ({
+    exportNames,
+    code: toText(chunks),
+    map: sourcemap
+      ? composeSourceMap(chunks, {
+        code: transformed.code,
+        map: JSON.parse(transformed.map),
+      })
+      : undefined,
+  });
+  const chunks = rewriteSpecifiers(
+    [{ text: transformed.code, origin: 0 }],
+    rewriteSpecifier,
+  );
+  const code = toText(chunks);
+
+  const actions: { node: Node; ancestors: Node[] }[] = [];
+  walk(parseModule(code), (node, ancestors) => {
+    if (!isInlineServerAction(node)) return;
+    actions.push({ node, ancestors });
+    return false;
+  });
+  if (actions.length === 0) return output(chunks, []);
+
+  const edits: Edit[] = [];
+  const hoisted = actions.map(({ node, ancestors }, i) => {
+    const exportName = `_RSC_action_${i}`;
+    const actionId = JSON.stringify(`${actionModuleId}#${exportName}`);
+    const scopes = ancestors.filter(isFunction);
+    const blocks = ancestors.map(getBlockNames);
+    const scopeNames = new Set([
+      ...scopes.flatMap((fn) => [...getDeclaredNames(fn)]),
+      ...blocks.flatMap(({ names }) => names),
+    ]);
+    const closure = [...getReferencedNames(node)].filter((name) =>
+      scopeNames.has(name) && name !== node.id?.name
+    );
+    const functionNames = new Set([
+      ...scopes.flatMap((fn) => [...getFunctionNames(fn)]),
+      ...blocks.flatMap(({ functionNames }) => functionNames),
+    ]);
+    const unserializable = closure.find((name) => functionNames.has(name));
+    if (unserializable) {
+      throw new Error(
+        `[rsc-engine] ${
+          sourcefile ?? actionModuleId
+        }: a "use server" function closes over "${unserializable}", functions and classes cannot be bound to a server action`,
+      );
+    }
+
+    const params = node.params.map((param: Node) =>
+      code.slice(param.start, param.end)
+    );
+    const lastDirective = node.body.body[getDirectives(node).length - 1];
+    const body = closure.length > 0
+      ? [
+        ...sliceChunks(chunks, node.body.start, lastDirective.end),
+        {
+          text: `\nconst [${
+            closure.join(", ")
+          }] = _RSC_decrypt(${actionId}, _RSC_bound);`,
+        },
+        ...sliceChunks(chunks, lastDirective.end, node.body.end),
+      ]
+      : sliceChunks(chunks, node.body.start, node.body.end);
+    const signature = [...(closure.length > 0 ? ["_RSC_bound"] : []), ...params]
+      .join(", ");
+
+    const bound = `_RSC_encrypt(${actionId}, [${closure.join(", ")}], ${
+      JSON.stringify(closure)
+    })`;
+    const registration = (name: string) =>
+      `_RSC_registerServerReference(${name}, ${
+        JSON.stringify(actionModuleId)
+      }, ${JSON.stringify(exportName)});`;
+    const parent = ancestors.at(-1);
+    if (
+      parent?.type === "MethodDefinition" ||
+      (parent?.type === "Property" && parent.kind !== "init")
+    ) {
+      throw new Error(
+        `[rsc-engine] ${
+          sourcefile ?? actionModuleId
+        }: "use server" class methods, getters and setters are not supported, use a function`,
+      );
+    }
+    const reference = `(${
+      closure.length > 0 ? `${exportName}.bind(null, ${bound})` : exportName
+    })`;
+    if (
+      node.type === "FunctionDeclaration" &&
+      parent?.type !== "ExportDefaultDeclaration"
+    ) {
+      // A function declaration stays one, hoisted as the original. It calls
+      // the action with the closure of the call, and is registered at the top
+      // of its scope with the closure read when React serializes it.
+      const name = node.id.name;
+      edits.push({
+        start: node.start,
+        end: node.end,
+        chunks: [{
+          text: `function ${name}(..._RSC_args) { return ${exportName}(${
+            closure.length > 0 ? `${bound}, ` : ""
+          }..._RSC_args); }`,
+        }],
+      });
+      const scope = parent?.type === "ExportNamedDeclaration"
+        ? ancestors.at(-2)
+        : parent;
+      const start = getScopeStart(scope, node.end);
+      edits.push({
+        start,
+        end: start,
+        chunks: [{
+          text: `\n${registration(name)}${
+            closure.length > 0
+              ? `\nObject.defineProperty(${name}, "$$bound", { get: () => [${bound}], configurable: true });`
+              : ""
+          }\n`,
+        }],
+      });
+    } else if (parent?.type === "Property" && parent.method) {
+      // The function of a method is only its parameters and body, the whole
+      // property becomes `key: reference`.
+      const key = sliceChunks(chunks, parent.key.start, parent.key.end);
+      edits.push({
+        start: parent.start,
+        end: parent.end,
+        chunks: [
+          ...parent.computed ? [{ text: "[" }, ...key, { text: "]" }] : key,
+          { text: `: ${reference}` },
+        ],
+      });
+    } else {
+      edits.push({
+        start: node.start,
+        end: node.end,
+        chunks: [{ text: reference }],
+      });
+    }
+
+    return [
+      {
+        text: `\n${
+          node.async ? "async " : ""
+        }function ${exportName}(${signature}) `,
+      },
+      ...body,
+      { text: `\n${registration(exportName)}` },
+    ];
+  });
+
+  const exportNames = actions.map((_, i) => `_RSC_action_${i}`);
+  return output([
+    {
+      text: [
+        `// @ts-nocheck`,
+        `import { registerServerReference as _RSC_registerServerReference } from "react-server-dom-esm/server.edge";`,
+        `import { decryptActionBoundArgs as _RSC_decrypt, encryptActionBoundArgs as _RSC_encrypt } from "@bureaudouble/rsc-engine/action-encryption";\n`,
+      ].join("\n"),
+    },
+    ...applyEdits(chunks, edits),
+    ...hoisted.flat(),
+    { text: `\nexport { ${exportNames.join(", ")} };` },
+  ], exportNames);
+};
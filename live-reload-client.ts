@@ -0,0 +1,28 @@
+import { getRuntimeConfig } from "./runtime-config.ts";
+
+// Dev-only bootstrap module, added by the engine when `liveReload` is on. The
+// channel lives next to the bundles of the app.
+const source = new EventSource(
+  new URL("../hmr", new URL(getRuntimeConfig().assetPrefix, location.href)),
+);
+
+let buildId: string | undefined;
+source.addEventListener("connected", (event) => {
+  const data = JSON.parse((event as MessageEvent).data);
+  if (buildId && buildId !== data.buildId) globalThis.location.reload();
+  buildId = data.buildId;
+});
+
+source.addEventListener("rebuild", async (event) => {
+  const data = JSON.parse((event as MessageEvent).data);
+  buildId = data.buildId;
+  if (data.reload) return globalThis.location.reload();
+  // The refresh runtime is only loaded, and bundled as a development build,
+  // when the engine sends chunks to refresh.
+  const refreshed = data.refresh.length > 0 &&
+    await import("./fast-refresh-runtime.ts").then(({ applyUpdate }) =>
+      applyUpdate(data.refresh)
+    );
+  if (refreshed && !data.refetch) return;
+  globalThis.dispatchEvent(new CustomEvent("hmr", { detail: data }));
+});
@@ -0,0 +1,74 @@
+const encoder = new TextEncoder();
+const keepAliveInterval = 30 * 1000;
+
+export interface LiveReloadEvent {
+  path: string;
+  buildId: string;
+  /** The page must be reloaded, its bootstrap chunks or stylesheets changed. */
+  reload: boolean;
+  /** Rebuilt client module chunks to hot swap with React Fast Refresh. */
+  refresh: string[];
+  /** The current route must be fetched again. */
+  refetch: boolean;
+}
+
+/**
+ * Server-sent events channel broadcasting rebuilds to the browsers of a dev
+ * server. Every connection first receives the current build id, so a client
+ * reconnecting to a restarted server can tell whether its chunks are stale.
+ */
+export const createLiveReload = (getBuildId: () => Promise<string>) => {
+  // Connections and the function closing them.
+  const clients = new Map<
+    ReadableStreamDefaultController<Uint8Array>,
+    () => void
+  >();
+  // A connection closed without being cancelled throws, it is closed.
+  const enqueue = (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    text: string,
+  ) => {
+    try {
+      controller.enqueue(encoder.encode(text));
+    } catch {
+      clients.get(controller)?.();
+    }
+  };
+  const send = (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    event: string,
+    data: unknown,
+  ) =>
+    enqueue(controller, `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  return {
+    broadcast: (data: LiveReloadEvent) =>
+      clients.forEach((_, controller) => send(controller, "rebuild", data)),
+    handle: () => {
+      let controller: ReadableStreamDefaultController<Uint8Array>;
+      let pid: number;
+      const close = () => {
+        clearInterval(pid);
+        clients.delete(controller);
+      };
+      const body = new ReadableStream<Uint8Array>({
+        start: async (streamController) => {
+          controller = streamController;
+          clients.set(controller, close);
+          pid = setInterval(
+            () => enqueue(controller, ": keep-alive\n\n"),
+            keepAliveInterval,
+          );
+          send(controller, "connected", { buildId: await getBuildId() });
+        },
+        cancel: close,
+      });
+      return new Response(body, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
+      });
+    },
+  };
+};
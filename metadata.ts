@@ -0,0 +1,130 @@
+// @deno-types="@types/react"
+import { createElement, type ReactElement } from "react";
+
+/** Title of a route, layouts give a `template` like `"%s | Acme"`. */
+export type MetadataTitle =
+  | string
+  | { default?: string; template?: string; absolute?: string };
+
+export interface Metadata {
+  title?: MetadataTitle;
+  description?: string;
+  keywords?: string[];
+  robots?: string;
+  /** Canonical url, relative to the requested one. */
+  canonical?: string;
+  openGraph?: {
+    title?: string;
+    description?: string;
+    type?: string;
+    url?: string;
+    images?: string[];
+  };
+  /** Other meta tags, by `name` or `property`. */
+  other?: { name?: string; property?: string; content: string }[];
+}
+
+export interface ResolvedMetadata extends Omit<Metadata, "title"> {
+  title?: string;
+}
+
+/** Exports of a route module or layout describing its metadata. */
+export interface MetadataModule {
+  metadata?: Metadata;
+  generateMetadata?: (
+    ctx: any,
+    parent: ResolvedMetadata,
+  ) => Metadata | Promise<Metadata>;
+}
+
+const applyTemplate = (title: string, template?: string) =>
+  template ? template.replace("%s", title) : title;
+
+/**
+ * Metadata of the given modules, outermost layout first and page last. Later
+ * fields replace earlier ones, titles use the template of the closest
+ * enclosing layout.
+ */
+export const resolveMetadata = async (
+  modules: MetadataModule[],
+  ctx: any,
+): Promise<ResolvedMetadata> => {
+  let resolved: ResolvedMetadata = {};
+  let template: string | undefined;
+  for (const module of modules) {
+    const { title, ...metadata } =
+      await module.generateMetadata?.(ctx, resolved) ?? module.metadata ?? {};
+    resolved = { ...resolved, ...metadata };
+    if (typeof title === "string") {
+      resolved.title = applyTemplate(title, template);
+    } else if (title) {
+      resolved.title = title.absolute ??
+        (title.default !== undefined
+          ? applyTemplate(title.default, template)
+          : resolved.title);
+      template = title.template ?? template;
+    }
+  }
+  return resolved;
+};
+
+/** Attribute of the `<title>` of the metadata, put first by the client. */
+export const metadataTitleAttribute = "data-rsc-metadata";
+
+/**
+ * Elements of the resolved metadata. React hoists them into the head of the
+ * document, and replaces them on navigations.
+ */
+export const renderMetadata = (
+  metadata: ResolvedMetadata,
+  url: string,
+): ReactElement[] => {
+  const absolute = (value: string) => new URL(value, url).href;
+  const meta = (key: string, content?: string, attribute = "name") =>
+    content ? [createElement("meta", { key, [attribute]: key, content })] : [];
+  const { openGraph } = metadata;
+  return [
+    ...metadata.title !== undefined
+      ? [
+        createElement("title", {
+          key: "title",
+          [metadataTitleAttribute]: "",
+        }, metadata.title),
+      ]
+      : [],
+    ...meta("description", metadata.description),
+    ...meta("keywords", metadata.keywords?.join(", ")),
+    ...meta("robots", metadata.robots),
+    ...metadata.canonical
+      ? [
+        createElement("link", {
+          key: "canonical",
+          rel: "canonical",
+          href: absolute(metadata.canonical),
+        }),
+      ]
+      : [],
+    ...meta("og:title", openGraph?.title, "property"),
+    ...meta("og:description", openGraph?.description, "property"),
+    ...meta("og:type", openGraph?.type, "property"),
+    ...meta(
+      "og:url",
+      openGraph?.url && absolute(openGraph.url),
+      "property",
+    ),
+    ...(openGraph?.images ?? []).map((image, i) =>
+      createElement("meta", {
+        key: `og:image:${i}`,
+        property: "og:image",
+        content: absolute(image),
+      })
+    ),
+    ...(metadata.other ?? []).map(({ name, property, content }, i) =>
+      createElement("meta", {
+        key: `other:${i}`,
+        ...name ? { name } : { property },
+        content,
+      })
+    ),
+  ];
+};
@@ -10,13 +10,70 @@ import { dirname } from "@std/path/dirname";
 import { fromFileUrl } from "@std/path/from-file-url";
 import { resolveImportMap } from "@bureaudouble-forks/importmap";
 import { denoPlugins } from "@luca/esbuild-deno-loader";
-import { RateLimiter } from "@teemukurki/rate-limiter";
 import { getHashSync } from "@bureaudouble/scripted";
 import { eTag } from "@std/http/etag";
 
 import { info, type ModuleEntryEsm } from "@bureaudouble/deno-info";
-import { createRenderer } from "./createRenderer.ts";
+import {
+  type ActionErrorHandler,
+  createRenderer,
+  type RouteFallbacks,
+  type ServerActionManifest,
+} from "./createRenderer.ts";
 import { withRouteContext } from "./route-context.tsx";
+import { createLiveReload } from "./live-reload.ts";
+import { watchFiles } from "./watch.ts";
+import { createModuleCache } from "./module-cache.ts";
+import { createFastRefreshPlugin, refreshHookScript } from "./fast-refresh.ts";
+import {
+  type CorsOptions,
+  getCompressedPaths,
+  serveAsset,
+  writeCompressedAssets,
+} from "./assets.ts";
+import {
+  hasInlineServerActions,
+  transformInlineServerActions,
+} from "./inline-server-actions.ts";
+import { getUseDirective } from "./directives.ts";
+import {
+  composeImportMaps,
+  type ImportMap,
+  rebaseImportMap,
+} from "./import-map.ts";
+import {
+  createStylesheetPlugin,
+  generateStylesheetServerCode,
+  isStylesheet,
+  toStylesheetEntryPoint,
+} from "./stylesheets.ts";
+import {
+  type PrerenderModule,
+  prerenderRoute,
+  servePrerendered,
+} from "./prerender.ts";
+import { validateBoundaries } from "./boundaries.ts";
+import { generateRouteTypes } from "./routes.ts";
+import { resolveMetadata } from "./metadata.ts";
+import {
+  assertRevalidate,
+  type CacheModule,
+  setCacheStorage,
+} from "./cache.ts";
+import type { CacheStorage } from "./cache-storage.ts";
+import {
+  getFileRouteFiles,
+  getFileRouteSources,
+  loadFileRoute,
+  scanAppDirectory,
+} from "./file-routes.ts";
+import type { RouteErrorBoundary } from "./RouteErrorBoundary.tsx";
+import { createFetchHandler } from "./fetch-handler.ts";
+import {
+  createBundleReport,
+  type SizeBudgets,
+  writeBundleReport,
+} from "./analyze.ts";
 
 const absolute = (...a: string[]) => join(Deno.cwd(), ...a);
 
@@ -41,6 +98,17 @@ const writeTextFileIfDifferent = (filePath: string, content: string) =>
       console.log("[rsc-engine] wrote", filePath);
     });
 
+// For files written while setting up routes, before a build script may exit.
+const writeTextFileIfDifferentSync = (filePath: string, content: string) => {
+  try {
+    if (Deno.readTextFileSync(filePath) === content) return;
+  } catch {
+    Deno.mkdirSync(dirname(filePath), { recursive: true });
+  }
+  Deno.writeTextFileSync(filePath, content);
+  console.log("[rsc-engine] wrote", filePath);
+};
+
 const updateJsonFileIfDifferent = async <T>(
   filePath: string,
   updateFn: (arg: any) => T,
@@ -67,6 +135,43 @@ const createRemoveReferences =
       ]),
     );
 
+// Scopes of every app built in this project, composed with the user import
+// map, so the server can run with `--import-map=build/import_map.json`.
+const writeComposedImportMap = async (userImportMap: ImportMap) => {
+  const referenceImportMaps: ImportMap[] = [];
+  for await (const entry of Deno.readDir(absolute("build"))) {
+    if (!entry.isDirectory) continue;
+    const directory = absolute("build", entry.name);
+    const referenceImportMap = await Deno.readTextFile(
+      join(directory, "import_map.json"),
+    )
+      .then(JSON.parse)
+      .catch(() => null);
+    if (!referenceImportMap) continue;
+    referenceImportMaps.push(
+      rebaseImportMap(
+        referenceImportMap,
+        toFileUrl(directory).href + "/",
+        absolute("build"),
+      ),
+    );
+  }
+  await writeTextFileIfDifferent(
+    absolute("build", "import_map.json"),
+    JSON.stringify(
+      composeImportMaps(userImportMap, ...referenceImportMaps),
+      null,
+      2,
+    ),
+  );
+};
+
+const createReferenceFileName = (specifier: string) =>
+  format({
+    name: `${parse(specifier).name}-${getHashSync(specifier)}`,
+    ext: ".ts",
+  });
+
 const generateClientReferenceServerCode = (
   relativeBundleDirectory: string,
   bundleURL: string,
@@ -113,6 +218,7 @@ ${
 const generateServerReferenceServerCode = (
   relativeReferenceDirectory: string,
   specifierURL: string,
+  actionModuleId: string,
   ids: string[],
 ) =>
   [
@@ -125,8 +231,9 @@ const generateServerReferenceServerCode = (
       )
     };`,
     `const rsr = <T extends keyof typeof _RSC_exports>(id: T): typeof _RSC_exports[T] => {
-      const url = ${JSON.stringify(specifierURL)};
-      return registerServerReference(_RSC_exports[id], url, id);
+      return registerServerReference(_RSC_exports[id], ${
+      JSON.stringify(actionModuleId)
+    }, id);
     };`,
     ...ids.flatMap((exportName) => {
       const exportKey = exportName === "default"
@@ -141,12 +248,13 @@ const generateServerReferenceServerCode = (
 
 const generateServerReferenceClientCode = (
   specifierURL: string,
+  actionModuleId: string,
   ids: string[],
 ) =>
   [
     `import { createServerReference as csr } from "react-server-dom-esm/client.browser";`,
     `import type * as _RSC_types from ${JSON.stringify(specifierURL)};`,
-    `const _RSC_url = ${JSON.stringify(specifierURL)};`,
+    `const _RSC_id = ${JSON.stringify(actionModuleId)};`,
     ...ids.flatMap((exportName) => {
       const exportKey = exportName === "default"
         ? `const _RSC_default: typeof _RSC_types["default"] =`
@@ -156,7 +264,7 @@ const generateServerReferenceClientCode = (
           )
         }] =`;
       return [
-        `${exportKey} csr([_RSC_url, ${
+        `${exportKey} csr([_RSC_id, ${
           JSON.stringify(
             exportName,
           )
@@ -166,26 +274,8 @@ const generateServerReferenceClientCode = (
     }),
   ].join("\n");
 
-const limiter = new RateLimiter({ tokensPerInterval: 60, interval: "second" });
-const getUseDirective = async (specifier: string) => {
-  if (new URL(specifier).protocol !== "file:") {
-    await limiter.removeTokens(1);
-  }
-  const response = await fetch(specifier).catch(console.error);
-  if (!response?.body) return "error";
-  const reader = response.body.getReader({ mode: "byob" });
-  const { value } = await reader.read(new Uint8Array(11));
-  const decoder = new TextDecoder("utf-8");
-  const directive = decoder.decode(value).trim().slice(1, 11);
-  const map = {
-    "use client": "client",
-    "use server": "server",
-  } as const;
-  const mode = directive in map
-    ? map[directive as keyof typeof map]
-    : ("default" as const);
-  return mode;
-};
+const createServerActionId = (entryPoint: string, exportName?: string) =>
+  [getHashSync(entryPoint), ...(exportName ? [exportName] : [])].join("#");
 
 class PathTransformStream {
   private transformStream: TransformStream<Uint8Array, Uint8Array>;
@@ -302,6 +392,12 @@ const createTimeStartEnd = (ns: string, timeIndex = 0) => (key: string) => {
   return () => console.timeEnd(id);
 };
 const supportedMediaTypes = ["TSX", "JSX", "JavaScript", "TypeScript"];
+const mediaTypeLoaders: Record<string, Esbuild.Loader> = {
+  TSX: "tsx",
+  JSX: "jsx",
+  JavaScript: "js",
+  TypeScript: "ts",
+};
 export const hmrRebuildEventName = "hmr:rscengine:snapshot-created";
 
 interface Manifest {
@@ -311,7 +407,40 @@ interface Manifest {
   bootstrapModules: string[];
   moduleBaseURL: string;
   minify?: boolean;
+  sourcemap?: boolean;
+  /** Sends action errors to the client without their message and stack. */
+  redactErrors?: boolean;
+  /** Called with the errors thrown by server actions and their digest. */
+  onError?: ActionErrorHandler;
+  liveReload?: boolean;
+  fastRefresh?: boolean;
+  watch?: boolean;
+  frozen?: boolean;
+  cors?: CorsOptions | false;
+  /**
+   * Options passed through to the esbuild context of the client build, and to
+   * the build reading the exports of "use server" modules. User plugins run
+   * after the engine's own and before the Deno loader.
+   */
+  esbuild?: EsbuildOptions;
+  /**
+   * Environment variables inlined into client bundles as `process.env.NAME`,
+   * in addition to the ones prefixed with `PUBLIC_`.
+   */
+  publicEnv?: string[];
+  /**
+   * Storage of the server cache of `cache()` and the routes exporting
+   * `revalidate`, in memory by default. See `./cache-storage.ts`.
+   */
+  cache?: CacheStorage;
+  /** Gzipped size budgets checked by `analyze`, failing the build. */
+  budgets?: SizeBudgets;
   verbose?: "info" | "error";
+  /**
+   * Directory of the `page`, `layout`, `loading` and `error` files routed by
+   * `createFileRoutes`, relative to the current directory.
+   */
+  appDirectory?: string;
   basePath?: string;
   namespace?: string;
   clientImports?: {
@@ -320,33 +449,136 @@ interface Manifest {
   };
 }
 
+type EsbuildOptions = Pick<
+  Esbuild.BuildOptions,
+  "plugins" | "loader" | "define" | "target" | "jsxImportSource"
+>;
+
+const publicEnvPrefix = "PUBLIC_";
+
+const isEnvGranted = (variable?: string) =>
+  Deno.permissions.querySync({ name: "env", variable }).state === "granted";
+
+// The `publicEnv` variables are read one by one, `--allow-env=NAME` is enough.
+// Listing the `PUBLIC_` ones needs access to the whole environment.
+const getPublicEnv = (allowlist: string[] = []) =>
+  Object.fromEntries(
+    [
+      ...new Set([
+        ...allowlist,
+        ...(isEnvGranted() ? Object.keys(Deno.env.toObject()) : [])
+          .filter((name) => name.startsWith(publicEnvPrefix)),
+      ]),
+    ]
+      .filter((name) => isEnvGranted(name))
+      .flatMap((name) => {
+        const value = Deno.env.get(name);
+        return value === undefined ? [] : [[name, value]];
+      })
+      .sort(([a], [b]) => a.localeCompare(b)),
+  );
+
+const enginePluginNames = [
+  "client-server-actions",
+  "dynamic-react-resolver",
+  "fast-refresh",
+  "stylesheets",
+  "deno-resolver",
+  "deno-loader",
+];
+
 interface ClientComponentsBaseOutput {
   locals: string[];
+  /** Local modules imported by each local module. */
+  localDependencies?: { [local: string]: string[] };
+  /** Whether the bootstrap modules include the live reload client. */
+  liveReload?: boolean;
+  actions: ServerActionManifest;
+  clientAssets: {
+    bootstrap: ClientAssets;
+    modules: { [specifier: string]: ClientAssets };
+  };
   updatedBootstrapModules: string[];
   updatedExternals: { [k: string]: string };
+  outputMappings?: OutputMapping;
+  clientModules?: {
+    [entryPoint: string]: {
+      endpointPath: string;
+      exports: string[];
+      assets?: ClientAssets;
+    };
+  };
+}
+
+interface ClientAssets {
+  stylesheets: string[];
+  modulepreloads: string[];
 }
 
 interface OutputMapping {
   [x: string]: { endpointPath: string };
 }
 
+// Module of a route and the file urls it is loaded from, to reload it when
+// one of them changed.
+interface RouteSource<M> {
+  files: string[];
+  load: (importModule: (file: string) => Promise<any>) => Promise<M>;
+}
+
 type Optional<T, K extends keyof T> = Pick<Partial<T>, K> & Omit<T, K>;
 type ManifestInput = Optional<
   Manifest,
-  "moduleBaseURL" | "importMap" | "minify" | "external"
+  | "moduleBaseURL"
+  | "importMap"
+  | "minify"
+  | "sourcemap"
+  | "redactErrors"
+  | "liveReload"
+  | "fastRefresh"
+  | "watch"
+  | "frozen"
+  | "external"
 >;
 
 const prepareManifest = (manifest: ManifestInput): Manifest => {
   manifest.moduleBaseURL ??= dirname(manifest.entryPoint);
   manifest.importMap ??= join(manifest.moduleBaseURL, "./deno.json");
   manifest.minify ??= Deno.env.get("NODE_ENV") === "production";
+  manifest.sourcemap ??= Deno.env.get("NODE_ENV") !== "production";
+  manifest.redactErrors ??= Deno.env.get("NODE_ENV") === "production";
   manifest.external ??= [];
+  manifest.liveReload ??= Deno.env.get("NODE_ENV") !== "production" &&
+    new URL(manifest.entryPoint).protocol === "file:";
+  manifest.fastRefresh ??= manifest.liveReload && !manifest.minify;
+  manifest.watch ??= false;
+  manifest.frozen ??= Deno.args.includes("--frozen");
+  if (manifest.liveReload) {
+    manifest.bootstrapModules = [
+      ...manifest.bootstrapModules,
+      import.meta.resolve("./live-reload-client.ts"),
+    ];
+  }
+  manifest.cors ??= { origin: "*" };
+  manifest.esbuild ??= {};
+  const reservedPlugin = manifest.esbuild.plugins?.find(({ name }) =>
+    enginePluginNames.includes(name)
+  );
+  if (reservedPlugin) {
+    throw new Error(
+      `[rsc-engine] esbuild plugin name "${reservedPlugin.name}" is reserved by the engine`,
+    );
+  }
   return manifest as Manifest;
 };
 
 const setupClientComponentsBase = async (
   manifest: Manifest,
-  state: { entryPoints?: string[]; esbuildContext?: Esbuild.BuildContext },
+  state: {
+    entryPoints?: string[];
+    esbuildContext?: Esbuild.BuildContext;
+    fastRefreshModules?: Set<string>;
+  },
 ): Promise<ClientComponentsBaseOutput> => {
   const basePath = manifest.basePath ?? "default";
   const logprefix = `[rsc-engine:${basePath}]`;
@@ -359,10 +591,12 @@ const setupClientComponentsBase = async (
   const relativeOutputDirectory = join("build", basePath, "es");
   const outputDirectory = absolute(relativeOutputDirectory);
   const endpointDirectory = join("/", manifest.basePath ?? ".", "build", "es");
-  const localImportMapPath = absolute("deno.json");
-  const localImportMap = await Deno.readTextFile(localImportMapPath).then(
-    JSON.parse,
-  );
+  const referenceImportMapPath = join("build", basePath, "import_map.json");
+  const referenceImportMap: ImportMap | null = await Deno.readTextFile(
+    referenceImportMapPath,
+  )
+    .then(JSON.parse)
+    .catch(() => null);
   const snapshotPath = join("build", basePath, "snapshot.json");
 
   const snapshot = await Deno.readTextFile(snapshotPath)
@@ -374,17 +608,20 @@ const setupClientComponentsBase = async (
         "You must build before when using without write permissions.",
       );
     }
+    if (!!snapshot.liveReload !== manifest.liveReload) {
+      throw Error(
+        `The snapshot was built ${
+          snapshot.liveReload ? "with" : "without"
+        } liveReload, build again with the liveReload option of this server.`,
+      );
+    }
     console.log(logprefix, "using snapshot");
     globalExternals = { ...globalExternals, ...snapshot.updatedExternals };
     return snapshot as ClientComponentsBaseOutput;
   }
 
   const importMapResponse = await fetch(manifest.importMap);
-  const importMap = (await importMapResponse.json()) as {
-    imports?: Record<string, string>;
-    scopes?: Record<string, Record<string, string>>;
-  };
-  const cleanReferences = createRemoveReferences(relativeReferenceDirectory);
+  const importMap = (await importMapResponse.json()) as ImportMap;
   const scopesWithoutReferences = createRemoveReferences(
     relativeReferenceDirectory,
   )(importMap.scopes ?? {});
@@ -418,15 +655,29 @@ const setupClientComponentsBase = async (
   };
 
   const esbuildOptions = { quiet: true, importMapURL: infoOptions.importMap };
+  const moduleCache = createModuleCache(absolute("build", basePath, "cache"), {
+    frozen: manifest.frozen,
+  });
+  // Routed files are only imported at runtime, they are added to the graph.
+  const appFiles = manifest.appDirectory
+    ? getFileRouteFiles(scanAppDirectory(absolute(manifest.appDirectory)))
+    : [];
   const timeEndInfo = timeStartEnd("info");
   const moduleInfos = await Promise.all(
-    [manifest.entryPoint, ...manifest.bootstrapModules ?? []].map((
+    [manifest.entryPoint, ...manifest.bootstrapModules ?? [], ...appFiles].map((
       entryPoint,
-    ) => info(entryPoint, infoOptions)),
+    ) =>
+      moduleCache.getModuleInfo(
+        entryPoint,
+        infoOptions.importMap,
+        () => info(entryPoint, infoOptions),
+      )
+    ),
   );
   timeEndInfo();
 
   const timeEndDirective = timeStartEnd("directive");
+  const directiveStore = await moduleCache.loadDirectives();
   const modules = await Promise.all(
     moduleInfos
       .flatMap((info) => info.modules)
@@ -438,13 +689,34 @@ const setupClientComponentsBase = async (
       .filter((module) => supportedMediaTypes.includes(module.mediaType))
       .map(async (module) => {
         const { local } = resolveModuleSpecifier(module);
-        const directive: "default" | "error" | "client" | "server" =
-          await getUseDirective(local);
+        const { directive, warnings } = await getUseDirective(local, {
+          store: directiveStore,
+          frozen: manifest.frozen,
+        });
+        warnings.forEach(({ text, line, column }) =>
+          console.warn(
+            logprefix,
+            `${getRelativePathOrUrl(module.specifier)}:${line}:${column}`,
+            text,
+          )
+        );
+        const source = directive === "default" &&
+            new URL(module.specifier).protocol === "file:"
+          ? await Deno.readTextFile(fromFileUrl(module.specifier))
+          : null;
+        const inlineActions = source && hasInlineServerActions(source)
+          ? { source, hash: getHashSync(source) }
+          : null;
 
-        return { ...module, directive };
+        return { ...module, directive, inlineActions };
       }),
   );
   timeEndDirective();
+  const getDependencyModule = (dependency: { code?: { specifier?: string } }) =>
+    modules.find((module) =>
+      module.specifier ===
+        resolveJsrSpecifier(moduleInfos[0], dependency.code?.specifier!)
+    );
 
   const scopesWithDependencies = modules
     .filter((module) => module.directive !== "client")
@@ -463,10 +735,35 @@ const setupClientComponentsBase = async (
                 ),
           )!,
         }))
-        .filter((v) => ["client", "server"].includes(v.module?.directive)),
+        .filter((v) =>
+          ["client", "server"].includes(v.module?.directive) ||
+          v.module?.inlineActions
+        ),
     }))
     .filter((scope) => scope.dependencies.length > 0);
 
+  const stylesheetImports = modules
+    .filter((module) => module.directive !== "client")
+    .flatMap((module) =>
+      (module.dependencies ?? [])
+        .filter((dependency) =>
+          isStylesheet(dependency.code?.specifier) &&
+          new URL(dependency.code!.specifier!).protocol === "file:"
+        )
+        .map((dependency) => ({
+          scope: module.specifier,
+          dependency,
+          specifier: dependency.code!.specifier!,
+        }))
+    );
+  const stylesheetEntryPoints = [
+    ...new Set(
+      stylesheetImports.map(({ specifier }) =>
+        toStylesheetEntryPoint(fromFileUrl(specifier))
+      ),
+    ),
+  ];
+
   const entryPointModules = scopesWithDependencies
     .flatMap((scope) => scope.dependencies)
     .filter(({ module }) => module.directive === "client")
@@ -479,7 +776,14 @@ const setupClientComponentsBase = async (
     ...(manifest.external ?? []),
   ];
 
-  const symmetricDifference = new Set(entryPoints).symmetricDifference(
+  const contextEntryPoints = [...entryPoints, ...stylesheetEntryPoints];
+  state.fastRefreshModules = new Set(
+    modules
+      .filter((module) => module.directive === "client")
+      .filter((module) => new URL(module.specifier).protocol === "file:")
+      .map((module) => fromFileUrl(module.specifier)),
+  );
+  const symmetricDifference = new Set(contextEntryPoints).symmetricDifference(
     new Set(state.entryPoints),
   );
   const useCacheContext = state.esbuildContext &&
@@ -494,49 +798,137 @@ const setupClientComponentsBase = async (
       .filter((module) => module.directive === "server")
       .map((module) => resolveModuleSpecifier(module))
       .map((resolvedModule) => resolvedModule.entryPoint),
-    plugins: [...denoPlugins(esbuildOptions)],
+    plugins: [
+      ...(manifest.esbuild?.plugins ?? []),
+      ...denoPlugins(esbuildOptions),
+    ],
     metafile: true,
     write: false,
     outdir: absolute("."),
     format: "esm",
     jsx: "automatic",
+    jsxImportSource: manifest.esbuild?.jsxImportSource,
+    target: manifest.esbuild?.target,
+    loader: manifest.esbuild?.loader,
+    define: manifest.esbuild?.define,
+  });
+
+  const timeEndBoundaries = timeStartEnd("boundaries");
+  const findRoot = (specifier: string, info: typeof moduleInfos[number]) =>
+    modules.filter((module) =>
+      module.specifier === resolveJsrSpecifier(info, specifier)
+    );
+  const boundaries = await validateBoundaries(esbuild!, {
+    modules,
+    serverRoots: [
+      ...findRoot(manifest.entryPoint, moduleInfos[0]),
+      ...appFiles.flatMap((specifier, i) =>
+        findRoot(
+          specifier,
+          moduleInfos[1 + manifest.bootstrapModules.length + i],
+        )
+      ),
+    ],
+    clientRoots: [
+      ...modules.filter((module) => module.directive === "client"),
+      ...manifest.bootstrapModules.flatMap((specifier, i) =>
+        findRoot(specifier, moduleInfos[i + 1])
+      ),
+    ],
+    getDependencyModule,
+    getServerExports: (module) =>
+      Object.values(esbuildServerResult.metafile?.outputs ?? {}).find((
+        { entryPoint },
+      ) =>
+        entryPoint ===
+          getRelativePathOrUrl(resolveModuleSpecifier(module).entryPoint)
+      )?.exports,
+    getFile: (module) => getRelativePathOrUrl(module.specifier),
   });
+  timeEndBoundaries();
+  const color = Deno.stderr.isTerminal();
+  (await esbuild!.formatMessages(boundaries.warnings, {
+    kind: "warning",
+    color,
+  })).forEach((message) => console.warn(message));
+  (await esbuild!.formatMessages(boundaries.errors, { kind: "error", color }))
+    .forEach((message) => console.error(message));
+  if (boundaries.errors.length > 0) {
+    throw new Error(
+      `${logprefix} ${boundaries.errors.length} client/server boundary error(s)`,
+    );
+  }
+
+  const actions: ServerActionManifest = Object.fromEntries(
+    Object.values(esbuildServerResult.metafile?.outputs ?? {})
+      .filter((output) => output.entryPoint)
+      .flatMap(({ entryPoint, exports }) =>
+        exports.map((exportName) => [
+          createServerActionId(entryPoint!, exportName),
+          { specifier: entryPoint!, exportName },
+        ])
+      ),
+  );
 
   const timeEndEntryInfo = timeStartEnd("entry-info");
-  const entryInfos = await Promise.all(
-    (
-      await Promise.all(
-        entryPoints.map((specifier) => info(specifier, infoOptions)),
-      )
+  const entryModules = (
+    await Promise.all(
+      entryPoints.map((specifier) =>
+        moduleCache.getModuleInfo(
+          specifier,
+          infoOptions.importMap,
+          () => info(specifier, infoOptions),
+        )
+      ),
     )
-      .flatMap((v) => v.modules)
+  ).flatMap((v) => v.modules);
+  // Drops the cached graphs and directives this build did not use.
+  await moduleCache.save();
+  const stylesheetFiles = [
+    ...new Set(
+      [...modules, ...entryModules]
+        .flatMap((module) =>
+          "dependencies" in module ? module.dependencies ?? [] : []
+        )
+        .map((dependency) => dependency.code?.specifier)
+        .filter((specifier): specifier is string =>
+          isStylesheet(specifier) &&
+          new URL(specifier!).protocol === "file:"
+        ),
+    ),
+  ];
+  const entryInfos = await Promise.all([
+    ...entryModules
       .filter((v) => "local" in v)
       .filter((v) => !v.specifier.startsWith("http"))
       .filter((v) => !v.specifier.startsWith("jsr:"))
       .filter((v) => !v.specifier.startsWith("npm:"))
       .map((v) => Deno.stat(v.local!).then(eTag)),
-  );
+    ...stylesheetFiles.map((specifier) =>
+      Deno.stat(fromFileUrl(specifier)).then(eTag)
+    ),
+  ]);
   timeEndEntryInfo();
 
-  let isPresentInJson = true;
-  const newScopes = scopesWithDependencies
-    .flatMap((scope) => scope.dependencies)
-    .reduce((scopes, { module, dependency, scope }) => {
-      const { specifier } = resolveModuleSpecifier(module);
-      const outputFileName = format({
-        name: `${parse(specifier).name}-${getHashSync(specifier)}`,
-        ext: ".ts",
-      });
+  const newScopes = [
+    ...scopesWithDependencies
+      .flatMap((scope) => scope.dependencies)
+      .map(({ module, dependency, scope }) => ({
+        specifier: resolveModuleSpecifier(module).specifier,
+        dependency,
+        scope,
+      })),
+    ...stylesheetImports,
+  ]
+    .reduce((scopes, { specifier, dependency, scope }) => {
       const relativeOutputFilePath = toImportUrl(
-        join(relativeReferenceDirectory, outputFileName),
+        join(relativeReferenceDirectory, createReferenceFileName(specifier)),
       );
       const moduleKey = new URL(scope).protocol === "file:" ||
           !dependency.specifier.startsWith(".")
         ? dependency.specifier
         : toImportUrl(getRelativePathOrUrl(specifier), "@");
       const relscope = toImportUrl(getRelativePathOrUrl(scope), ".");
-      isPresentInJson =
-        localImportMap.scopes[relscope]?.[moduleKey] === relativeOutputFilePath;
       const outputEntry = {
         ...scopes,
         [relscope]: {
@@ -545,21 +937,59 @@ const setupClientComponentsBase = async (
         },
       };
       return outputEntry;
-    }, {} as { [x: string]: { [x: number]: string } });
+    }, {} as { [x: string]: { [x: string]: string } });
+  const referenceScopes = Object.fromEntries(
+    Object.entries(
+      rebaseImportMap(
+        { scopes: newScopes },
+        toFileUrl(Deno.cwd()).href + "/",
+        absolute("build", basePath),
+      ).scopes ?? {},
+    ).map(([scope, scopeMap]) => [scope, sortKeys(scopeMap)]),
+  );
+  const userImportMap = rebaseImportMap(
+    { imports: importMap.imports, scopes: scopesWithoutReferences },
+    importMapResponse.url,
+    absolute("build"),
+  );
+  const isPresentInImportMap = Object.entries(referenceScopes).every(
+    ([scope, scopeMap]) =>
+      Object.entries(scopeMap).every(([key, value]) =>
+        referenceImportMap?.scopes?.[scope]?.[key] === value
+      ),
+  );
 
+  const publicEnv = getPublicEnv(manifest.publicEnv);
   const hash = getHashSync(
     JSON.stringify({
       entryInfos,
       exports: Object.values(
         esbuildServerResult.metafile?.outputs ?? {},
       ).flatMap((v) => [v.entryPoint, v.exports]),
+      inlineActions: modules
+        .filter((module) => module.inlineActions)
+        .map((module) => [module.specifier, module.inlineActions!.hash]),
+      sourcemap: manifest.sourcemap,
+      bootstrapModules: manifest.bootstrapModules.map((specifier) =>
+        getRelativePathOrUrl(specifier)
+      ),
+      fastRefresh: manifest.fastRefresh,
+      esbuild: {
+        ...manifest.esbuild,
+        plugins: manifest.esbuild?.plugins?.map(({ name }) => name),
+      },
+      publicEnv,
     }),
   );
-  if (isPresentInJson && snapshot?.hash === hash) {
+  if (
+    isPresentInImportMap && snapshot?.actions && snapshot?.clientAssets &&
+    snapshot?.hash === hash
+  ) {
     console.log(
       logprefix,
       "using cached client components and server action names",
     );
+    await writeComposedImportMap(userImportMap);
     globalExternals = { ...globalExternals, ...snapshot.updatedExternals };
     return snapshot;
   }
@@ -577,7 +1007,11 @@ const setupClientComponentsBase = async (
         ).find(({ entryPoint }) => entryPoint === relativePath)?.exports;
         if (exports) {
           const value = {
-            contents: generateServerReferenceClientCode(relativePath, exports),
+            contents: generateServerReferenceClientCode(
+              relativePath,
+              createServerActionId(relativePath),
+              exports,
+            ),
             loader: "ts",
           };
           cache.set(path, value);
@@ -618,9 +1052,14 @@ const setupClientComponentsBase = async (
             );
           },
         },
+        ...(manifest.fastRefresh
+          ? [createFastRefreshPlugin(() => state.fastRefreshModules!)]
+          : []),
+        createStylesheetPlugin(),
+        ...(manifest.esbuild?.plugins ?? []),
         ...denoPlugins(esbuildOptions),
       ],
-      entryPoints: [...entryPoints],
+      entryPoints: [...contextEntryPoints],
       entryNames: "[name]-[hash]",
       outdir: outputDirectory,
       bundle: true,
@@ -629,24 +1068,41 @@ const setupClientComponentsBase = async (
       treeShaking: true,
       write: false,
       minify: manifest.minify,
+      sourcemap: manifest.sourcemap ? "linked" : false,
       format: "esm",
       jsx: "automatic",
+      jsxImportSource: manifest.esbuild?.jsxImportSource,
+      target: manifest.esbuild?.target,
+      loader: manifest.esbuild?.loader,
+      define: {
+        ...Object.fromEntries(
+          Object.entries(publicEnv).map((
+            [name, value],
+          ) => [`process.env.${name}`, JSON.stringify(value)]),
+        ),
+        ...manifest.esbuild?.define,
+      },
     });
-  state.entryPoints = entryPoints;
+  state.entryPoints = contextEntryPoints;
 
   const timeEndBuild = timeStartEnd("build");
   const esbuildResult = await state.esbuildContext!.rebuild();
   await removeExcept(
     outputDirectory,
-    (esbuildResult.outputFiles ?? []).map((f) => f.path),
+    (esbuildResult.outputFiles ?? []).flatMap((f) => [
+      f.path,
+      ...getCompressedPaths(f.path),
+    ]),
   );
   await Promise.all((esbuildResult.outputFiles ?? []).map(async (out) => {
-    if (await Deno.stat(out.path).then(() => true).catch(() => false)) return;
-    await Deno.mkdir(dirname(out.path), { recursive: true }).catch(
-      () => null,
-    );
-    await Deno.writeFile(out.path, out.contents);
-    console.log("[rsc-engine] wrote", out.path);
+    if (!(await Deno.stat(out.path).then(() => true).catch(() => false))) {
+      await Deno.mkdir(dirname(out.path), { recursive: true }).catch(
+        () => null,
+      );
+      await Deno.writeFile(out.path, out.contents);
+      console.log("[rsc-engine] wrote", out.path);
+    }
+    await writeCompressedAssets(out.path, out.contents);
   }));
   timeEndBuild();
 
@@ -661,12 +1117,88 @@ const setupClientComponentsBase = async (
       ),
     );
 
+  const rewriteInlineActionsSpecifier =
+    (module: typeof modules[number]) => (specifier: string) => {
+      const dependency = module.dependencies?.find((dependency) =>
+        dependency.specifier === specifier
+      );
+      if (isStylesheet(dependency?.code?.specifier)) {
+        return toImportUrl(
+          createReferenceFileName(dependency!.code!.specifier!),
+        );
+      }
+      const dependencyModule = modules.find((module) =>
+        module.specifier ===
+          resolveJsrSpecifier(moduleInfos[0], dependency?.code?.specifier!)
+      );
+      if (
+        dependencyModule &&
+        (["client", "server"].includes(dependencyModule.directive) ||
+          dependencyModule.inlineActions)
+      ) {
+        return toImportUrl(createReferenceFileName(dependencyModule.specifier));
+      }
+      return specifier.startsWith(".")
+        ? toImportUrl(
+          getRelativePathOrUrl(
+            new URL(specifier, module.specifier).href,
+            absoluteReferenceDirectory,
+          ),
+        )
+        : specifier;
+    };
+
   const toKeep: string[] = [];
   const notExistingYet: string[] = [];
+  const writtenInlineActions = new Set<string>();
   const outputMappings: OutputMapping = await scopesWithDependencies
     .flatMap((scope) => scope.dependencies)
     .reduce(async (promise, { module, scope }) => {
       const { specifier, entryPoint } = resolveModuleSpecifier(module);
+      if (module.inlineActions) {
+        const relativeOutputFilePath = join(
+          relativeReferenceDirectory,
+          createReferenceFileName(specifier),
+        );
+        toKeep.push(absolute(relativeOutputFilePath));
+        if (manifest.sourcemap) {
+          toKeep.push(absolute(`${relativeOutputFilePath}.map`));
+        }
+        if (writtenInlineActions.has(specifier)) return promise;
+        writtenInlineActions.add(specifier);
+        if (
+          !(await Deno.stat(absolute(relativeOutputFilePath)).catch(() =>
+            false
+          ))
+        ) {
+          notExistingYet.push(absolute(relativeOutputFilePath));
+        }
+        const transformed = await transformInlineServerActions(esbuild!, {
+          source: module.inlineActions.source,
+          loader: mediaTypeLoaders[module.mediaType],
+          actionModuleId: createServerActionId(relativeOutputFilePath),
+          rewriteSpecifier: rewriteInlineActionsSpecifier(module),
+          sourcefile: specifier,
+          sourcemap: manifest.sourcemap,
+        });
+        if (transformed.map) {
+          await writeTextFileIfDifferent(
+            absolute(`${relativeOutputFilePath}.map`),
+            JSON.stringify(transformed.map),
+          );
+        }
+        await writeTextFileIfDifferent(
+          absolute(relativeOutputFilePath),
+          transformed.code,
+        );
+        transformed.exportNames.forEach((exportName) => {
+          actions[createServerActionId(relativeOutputFilePath, exportName)] = {
+            specifier: relativeOutputFilePath,
+            exportName,
+          };
+        });
+        return promise;
+      }
       const relativeEntryPoint = getRelativePathOrUrl(entryPoint);
       const [outputRelativePath, { exports }] = Object.entries(
         (module.directive === "server" ? esbuildServerResult : esbuildResult)
@@ -693,14 +1225,11 @@ const setupClientComponentsBase = async (
         : generateServerReferenceServerCode(
           relativeReferenceDirectory,
           proxyPoint,
+          createServerActionId(relativeEntryPoint),
           exports,
         );
-      const outputFileName = format({
-        name: `${parse(specifier).name}-${getHashSync(specifier)}`,
-        ext: ".ts",
-      });
       const relativeOutputFilePath = toImportUrl(
-        join(relativeReferenceDirectory, outputFileName),
+        join(relativeReferenceDirectory, createReferenceFileName(specifier)),
       );
       toKeep.push(absolute(relativeOutputFilePath));
       if (
@@ -722,49 +1251,46 @@ const setupClientComponentsBase = async (
       }));
     }, Promise.resolve({} as OutputMapping));
 
-  await updateJsonFileIfDifferent(
-    localImportMapPath,
-    (data: {
-      rscUpdateId?: string;
-      imports: { [k: string]: string };
-      scopes: { [k: string]: { [k: string]: string } };
-    }) => {
-      const jsonReferencesCode = Object.values(data?.scopes ?? {})
-        .flatMap((v) => Object.values(v))
-        .map((v) => absolute(v))
-        .filter((v) => v.includes(basePath));
-      const needRestartFiles = jsonReferencesCode.filter((v) =>
-        notExistingYet.includes(v)
-      );
-      if (needRestartFiles.length > 0) {
-        console.warn(
-          logprefix,
-          `need restart; missing ${needRestartFiles.length}`,
+  const outputs = Object.entries(esbuildResult.metafile?.outputs ?? {});
+  await Promise.all(
+    [...new Set(stylesheetImports.map(({ specifier }) => specifier))].map(
+      async (specifier) => {
+        const [outputRelativePath] = outputs.find(([, { entryPoint }]) =>
+          entryPoint === toStylesheetEntryPoint(fromFileUrl(specifier))
+        )!;
+        const relativeOutputFilePath = join(
+          relativeReferenceDirectory,
+          createReferenceFileName(specifier),
         );
-      }
-
-      return {
-        ...data,
-        scopes: {
-          ...cleanReferences(data.scopes),
-          ...Object.entries(newScopes).reduce(
-            (acc, [scope, scopeMap]) => ({
-              ...acc,
-              [scope]: sortKeys({
-                ...cleanReferences(data.scopes)[scope],
-                ...scopeMap,
-              }),
-            }),
-            {},
+        toKeep.push(absolute(relativeOutputFilePath));
+        await writeTextFileIfDifferent(
+          absolute(relativeOutputFilePath),
+          generateStylesheetServerCode(
+            specifier,
+            toImportUrl(
+              getRelativePathOrUrl(
+                absolute(outputRelativePath),
+                absoluteReferenceDirectory,
+              ),
+            ),
           ),
-        },
-        rscUpdateId: needRestartFiles.length > 0
-          ? new Date().toISOString()
-          : data.rscUpdateId,
-      };
-    },
+        );
+      },
+    ),
   );
 
+  const needRestartFiles = Object.values(referenceImportMap?.scopes ?? {})
+    .flatMap((v) => Object.values(v))
+    .map((v) => absolute("build", basePath, v))
+    .filter((v) => notExistingYet.includes(v));
+  if (needRestartFiles.length > 0) {
+    console.warn(logprefix, `need restart; missing ${needRestartFiles.length}`);
+  }
+  await updateJsonFileIfDifferent(referenceImportMapPath, () => ({
+    scopes: referenceScopes,
+  }));
+  await writeComposedImportMap(userImportMap);
+
   await removeExcept(absoluteReferenceDirectory, toKeep);
 
   const endpointBasePath = manifest.basePath ?? ".";
@@ -783,13 +1309,144 @@ const setupClientComponentsBase = async (
       .map((v, i) => [getRelativePathOrUrl(manifest.external[i]), v]),
   );
 
+  const getCssBundles = (entryPoint: string) =>
+    outputs
+      .filter(([, output]) => output.entryPoint === entryPoint)
+      .flatMap(([, { cssBundle }]) => (cssBundle ? [cssBundle] : []))
+      .map((cssBundle) => join("/", endpointBasePath, cssBundle));
+  const getModulepreloads = (entryPoint: string) => {
+    const collectChunks = (outputPath: string, seen: Set<string>): string[] => {
+      if (seen.has(outputPath)) return [];
+      seen.add(outputPath);
+      return [
+        outputPath,
+        ...(esbuildResult.metafile?.outputs[outputPath]?.imports ?? [])
+          .filter(({ kind, external }) =>
+            kind === "import-statement" && !external
+          )
+          .flatMap(({ path }) => collectChunks(path, seen)),
+      ];
+    };
+    const seen = new Set<string>();
+    return outputs
+      .filter(([, output]) => output.entryPoint === entryPoint)
+      .flatMap(([outputPath]) => collectChunks(outputPath, seen))
+      .map((outputPath) => join("/", endpointBasePath, outputPath));
+  };
+  // Client entry points a server module renders: the stylesheets and client
+  // components it imports and, transitively, the ones of the server modules
+  // it imports.
+  const collectClientEntryPoints = (
+    module: typeof modules[number],
+    seen = new Set<string>(),
+  ): string[] => {
+    if (seen.has(module.specifier)) return [];
+    seen.add(module.specifier);
+    return (module.dependencies ?? []).flatMap((dependency) => {
+      const specifier = dependency.code?.specifier;
+      if (isStylesheet(specifier) && new URL(specifier!).protocol === "file:") {
+        return [toStylesheetEntryPoint(fromFileUrl(specifier!))];
+      }
+      const dependencyModule = getDependencyModule(dependency);
+      if (dependencyModule?.directive === "client") {
+        return [
+          getRelativePathOrUrl(
+            resolveModuleSpecifier(dependencyModule).entryPoint,
+          ),
+        ];
+      }
+      return dependencyModule?.directive === "default"
+        ? collectClientEntryPoints(dependencyModule, seen)
+        : [];
+    });
+  };
+  const getClientAssets = (entryPoints: string[]): ClientAssets => ({
+    stylesheets: [...new Set(entryPoints.flatMap(getCssBundles))],
+    modulepreloads: [
+      ...new Set(
+        entryPoints
+          .filter((entryPoint) => !isStylesheet(entryPoint))
+          .flatMap(getModulepreloads),
+      ),
+    ],
+  });
+  const clientModules = Object.fromEntries(
+    modules
+      .filter((module) => module.directive === "client")
+      .map((module) =>
+        getRelativePathOrUrl(resolveModuleSpecifier(module).entryPoint)
+      )
+      .flatMap((entryPoint) =>
+        outputs
+          .filter(([, output]) => output.entryPoint === entryPoint)
+          .map(([outputPath, { exports }]) => [
+            entryPoint,
+            {
+              endpointPath: join("/", endpointBasePath, outputPath),
+              exports,
+              assets: getClientAssets([entryPoint]),
+            },
+          ])
+      ),
+  );
+  const clientAssets = {
+    bootstrap: getClientAssets(
+      manifest.bootstrapModules.map((specifier, i) =>
+        locateModuleInBuild(
+          esbuildResult,
+          specifier,
+          moduleInfos.at(i + 1)!,
+        )![1].entryPoint!
+      ),
+    ),
+    modules: Object.fromEntries(
+      modules
+        .filter((module) => module.directive === "default")
+        .filter((module) => new URL(module.specifier).protocol === "file:")
+        .map((module) =>
+          [
+            module.inlineActions
+              ? join(
+                relativeReferenceDirectory,
+                createReferenceFileName(module.specifier),
+              )
+              : getRelativePathOrUrl(module.specifier),
+            getClientAssets(collectClientEntryPoints(module)),
+          ] as const
+        )
+        .filter(([, assets]) =>
+          assets.stylesheets.length > 0 || assets.modulepreloads.length > 0
+        ),
+    ),
+  };
+
   globalExternals = { ...globalExternals, ...updatedExternals };
   console.log(logprefix, "ended");
   return await updateJsonFileIfDifferent(snapshotPath, () => ({
-    locals: modules
-      .filter((module) => new URL(module.specifier).protocol === "file:")
-      .map(({ specifier }) => getRelativePathOrUrl(specifier)),
+    locals: [
+      ...modules
+        .filter((module) => new URL(module.specifier).protocol === "file:")
+        .map(({ specifier }) => getRelativePathOrUrl(specifier)),
+      ...stylesheetFiles.map((specifier) => getRelativePathOrUrl(specifier)),
+    ],
+    localDependencies: Object.fromEntries(
+      modules
+        .filter((module) => new URL(module.specifier).protocol === "file:")
+        .map((module) => [
+          getRelativePathOrUrl(module.specifier),
+          (module.dependencies ?? [])
+            .map((dependency) => dependency.code?.specifier)
+            .filter((specifier): specifier is string =>
+              !!specifier && new URL(specifier).protocol === "file:"
+            )
+            .map((specifier) => getRelativePathOrUrl(specifier)),
+        ]),
+    ),
     hash,
+    liveReload: manifest.liveReload,
+    actions,
+    clientAssets,
+    clientModules,
     updatedBootstrapModules,
     updatedExternals,
     outputMappings,
@@ -804,28 +1461,258 @@ export const getUrlFromExternals = (k: string) =>
 
 export const setupClientComponents = async (manifestInput: ManifestInput) => {
   const manifest = prepareManifest(manifestInput);
+  if (manifest.cache) setCacheStorage(manifest.cache);
   const state = {};
+  const prerenderDirectory = absolute(
+    "build",
+    manifest.basePath ?? "default",
+    "prerender",
+  );
   let result = setupClientComponentsBase(manifest, state);
+  // Client chunks are content hashed, browsers only need a full reload when
+  // one of the chunks they may have loaded changed.
+  const getBuildId = (snapshot: ClientComponentsBaseOutput) =>
+    getHashSync(
+      JSON.stringify([
+        snapshot.updatedBootstrapModules,
+        snapshot.updatedExternals,
+        snapshot.clientAssets,
+        snapshot.outputMappings,
+      ]),
+    );
+  const liveReload = createLiveReload(async () => getBuildId(await result));
+  // With fast refresh, changed client module chunks are hot swapped, the
+  // other client changes still need a full reload.
+  const getReloadId = (snapshot: ClientComponentsBaseOutput) =>
+    getHashSync(
+      JSON.stringify([
+        snapshot.updatedBootstrapModules,
+        snapshot.updatedExternals,
+        snapshot.clientAssets?.bootstrap.stylesheets,
+        Object.values(snapshot.clientAssets?.modules ?? {})
+          .map(({ stylesheets }) => stylesheets),
+      ]),
+    );
+  // Without a previous build, after a failed one, the page is reloaded.
+  const getLiveReloadEvent = async (
+    path: string,
+    previous: ClientComponentsBaseOutput | undefined,
+  ) => {
+    const current = await result;
+    const changedModules = Object.entries(current.clientModules ?? {})
+      .filter(([entryPoint, { endpointPath }]) => {
+        const previousModule = previous?.clientModules?.[entryPoint];
+        return previousModule && previousModule.endpointPath !== endpointPath;
+      });
+    const refresh = manifest.fastRefresh
+      ? changedModules
+        .filter(([entryPoint, { exports }]) =>
+          previous!.clientModules![entryPoint].exports.join() ===
+            exports.join()
+        )
+        .map(([, { endpointPath }]) => endpointPath)
+      : [];
+    return {
+      path,
+      buildId: getBuildId(current),
+      reload: !previous ||
+        (manifest.fastRefresh
+          ? getReloadId(previous) !== getReloadId(current)
+          : getBuildId(previous) !== getBuildId(current)),
+      refresh,
+      refetch: refresh.length === 0 || refresh.length !== changedModules.length,
+    };
+  };
+  const rebuild = async (paths: string[]) => {
+    // A failed build is started again on any change.
+    const previous = await result.catch(() => undefined);
+    const isBuildInput = (path: string) =>
+      previous?.locals?.includes(getRelativePathOrUrl(path)) ||
+      [".json", ".jsonc"].includes(parse(path).ext);
+    if (!previous || paths.some(isBuildInput)) {
+      await Deno.remove(prerenderDirectory, { recursive: true })
+        .catch(() => null);
+      result = setupClientComponentsBase(manifest, state);
+      await result;
+    }
+    return previous;
+  };
+  const notifyRebuild = async (
+    details: { path: string }[],
+    previous: ClientComponentsBaseOutput | undefined,
+  ) => {
+    details.forEach((detail) =>
+      globalThis.dispatchEvent(
+        new CustomEvent(hmrRebuildEventName, { detail }),
+      )
+    );
+    if (manifest.liveReload) {
+      liveReload.broadcast(await getLiveReloadEvent(details[0].path, previous));
+    }
+  };
   if (new URL(manifest.entryPoint).protocol === "file:") {
     globalThis.addEventListener("hmr", async (event: Event) => {
       const detail = (event as CustomEvent).detail;
       const dir = toFileUrl(absolute("build", manifest.basePath ?? "default"));
       if (detail.path.startsWith(dir)) return;
-      const { locals } = await result;
-      const module = locals?.includes(getRelativePathOrUrl(detail.path));
-      if (module || parse(detail.path).ext?.startsWith("json")) {
-        result = setupClientComponentsBase(manifest, state);
-        await result;
-      }
-      globalThis.dispatchEvent(
-        new CustomEvent(hmrRebuildEventName, { detail }),
-      );
+      await rebuild([detail.path])
+        .then((previous) => notifyRebuild([detail], previous))
+        .catch((error) => console.error("[rsc-engine] rebuild", error));
     });
   }
+  if (manifest.watch && new URL(manifest.entryPoint).protocol === "file:") {
+    const importMapURL = new URL(manifest.importMap);
+    watchFiles(
+      async () => [
+        ...(await result).locals.map((local) => absolute(local)),
+        ...(importMapURL.protocol === "file:"
+          ? [fromFileUrl(importMapURL)]
+          : []),
+      ],
+      async (paths) => {
+        console.log("[rsc-engine] changed", paths);
+        const previous = await rebuild(paths);
+        await reloadRouteModules(paths);
+        await notifyRebuild(
+          paths.map((path) => ({ path: toFileUrl(path).href })),
+          previous,
+        );
+      },
+    );
+  }
 
   if (withWritePermission) await result;
 
+  // Route modules are only known by their namespace object, matched against
+  // the modules of the snapshot once they are imported.
+  const assetModules = new WeakMap<object, string>();
+  const importedAssetModules = new Set<string>();
+  const getModuleClientAssets = async (
+    module: object,
+  ): Promise<ClientAssets> => {
+    const { clientAssets } = await result;
+    await Promise.all(
+      Object.keys(clientAssets?.modules ?? {})
+        .filter((specifier) => !importedAssetModules.has(specifier))
+        .map(async (specifier) => {
+          importedAssetModules.add(specifier);
+          const namespace = await import(toFileUrl(absolute(specifier)).href)
+            .catch(() => null);
+          if (namespace) assetModules.set(namespace, specifier);
+        }),
+    );
+    // Routes of `createFileRoutes` are composed of several modules.
+    const specifiers = (getFileRouteSources(module) ?? [module])
+      .map((namespace) => assetModules.get(namespace));
+    const assets = [
+      clientAssets?.bootstrap,
+      ...specifiers.map((specifier) =>
+        specifier ? clientAssets.modules[specifier] : undefined
+      ),
+    ];
+    return {
+      stylesheets: [
+        ...new Set(assets.flatMap((asset) => asset?.stylesheets ?? [])),
+      ],
+      modulepreloads: [
+        ...new Set(assets.flatMap((asset) => asset?.modulepreloads ?? [])),
+      ],
+    };
+  };
+
+  // Route modules registered with their files, re-imported in watch mode
+  // when one of them changed. Deno caches modules by URL, a cache-busting
+  // query loads the new version of the route files; the modules they import
+  // resolve to the cached ones until a restart.
+  const routeModules: (RouteSource<object> & {
+    namespace: object;
+    reload: (namespace: any) => void;
+  })[] = [];
+  // A changed file and the local modules importing it, as file urls.
+  const getDependents = async (path: string) => {
+    const { localDependencies = {} } = await result;
+    const dependents = new Set([getRelativePathOrUrl(path)]);
+    for (const local of dependents) {
+      Object.entries(localDependencies)
+        .filter(([, dependencies]) => dependencies.includes(local))
+        .forEach(([importer]) => dependents.add(importer));
+    }
+    return [...dependents].map((local) => toFileUrl(absolute(local)).href);
+  };
+  const reloadRouteModules = async (paths: string[]) => {
+    const { clientModules = {} } = await result;
+    const routeFiles = new Set(routeModules.flatMap(({ files }) => files));
+    const changed = new Set(paths.map((path) => toFileUrl(path).href));
+    // Client modules are reloaded by the client build, the server modules
+    // imported by routes are not.
+    const cachedPaths = (await Promise.all(
+      paths
+        .filter((path) =>
+          !routeFiles.has(toFileUrl(path).href) &&
+          !(getRelativePathOrUrl(path) in clientModules)
+        )
+        .map(async (path) =>
+          (await getDependents(path)).some((file) => routeFiles.has(file))
+            ? [path]
+            : []
+        ),
+    )).flat();
+    if (cachedPaths.length > 0) {
+      console.warn(
+        "[rsc-engine] need restart; modules imported by routes changed",
+        cachedPaths.map((path) => getRelativePathOrUrl(path)),
+      );
+    }
+    const version = Date.now();
+    const importModule = async (file: string) => {
+      const namespace = await import(file);
+      // Client modules are redirected to their references by the import
+      // map, which a query would bypass; the client build reloads them.
+      return !changed.has(file) ||
+          namespace.default?.$$typeof === Symbol.for("react.client.reference")
+        ? namespace
+        : import(`${file}?t=${version}`);
+    };
+    return Promise.all(
+      routeModules
+        .filter((route) => route.files.some((file) => changed.has(file)))
+        .map(async (route) => {
+          const namespace = await route.load(importModule);
+          // Assets are matched against the unversioned modules.
+          const [previous, next] = [route.namespace, namespace]
+            .map((module) => getFileRouteSources(module) ?? [module]);
+          previous.forEach((module, i) => {
+            const specifier = assetModules.get(module);
+            if (specifier && next[i]) assetModules.set(next[i], specifier);
+          });
+          route.namespace = namespace;
+          route.reload(namespace);
+        }),
+    );
+  };
+
   const basePath = manifest.basePath ?? "default";
+  // Error boundaries of file routes render on the client: the build ships the
+  // "use client" module imported by `./file-routes.ts` with a reference of
+  // its own, like the ones of the app.
+  const getRouteErrorBoundary = async (): Promise<
+    typeof RouteErrorBoundary
+  > => {
+    await result;
+    const reference = absolute(
+      "build",
+      basePath,
+      "references",
+      createReferenceFileName(import.meta.resolve("./RouteErrorBoundary.tsx")),
+    );
+    const namespace = await import(toFileUrl(reference).href).catch(() => null);
+    if (!namespace) {
+      throw new Error(
+        `[rsc-engine] missing the client reference of RouteErrorBoundary.tsx: ${reference}`,
+      );
+    }
+    return namespace.RouteErrorBoundary;
+  };
   return await Promise.resolve({
     hmrRebuildEventName,
     hasClientBuildFinished: () => result,
@@ -834,9 +1721,28 @@ export const setupClientComponents = async (manifestInput: ManifestInput) => {
         stream,
       ),
     getBootstrapModules: async () => (await result).updatedBootstrapModules,
+    getBuildId: async () => getBuildId(await result),
+    getServerActions: async () => (await result).actions ?? {},
+    sourcemap: manifest.sourcemap,
+    redactErrors: manifest.redactErrors,
+    onError: manifest.onError,
+    bootstrapScriptContent: manifest.fastRefresh
+      ? refreshHookScript
+      : undefined,
+    runtimeConfig: {
+      basePath: join("/", manifest.basePath ?? "."),
+      actionEndpoint: join("/", manifest.basePath ?? ".", "actions"),
+      assetPrefix: join(
+        "/",
+        manifest.basePath ?? ".",
+        "build",
+        basePath,
+        "es/",
+      ),
+      namespace: manifest.namespace ?? basePath,
+    },
     route: {
       match: {
-        method: "GET" as const,
         pattern: new URLPattern({
           pathname: join(
             "/",
@@ -845,70 +1751,307 @@ export const setupClientComponents = async (manifestInput: ManifestInput) => {
           ),
         }),
       },
-      handle: async (ctx: any) => {
-        const rawfilename = toFileUrl(
-          join(Deno.cwd(), "build", basePath, "es", ctx.params.id),
-        );
-        const response = await fetch(rawfilename.href).catch(() => null);
-        const size = response?.headers.get("content-length");
-        if (!response?.body) return new Response(null, { status: 404 });
-        return new Response(response.body, {
-          headers: {
-            "Content-Type": "text/javascript",
-            "Access-Control-Allow-Credentials": "true",
-            "Access-Control-Allow-Origin": "*",
-            "Access-Control-Allow-Methods": "GET,OPTIONS,PATCH,DELETE,POST,PUT",
-            "Access-Control-Allow-Headers": "*",
-            "Cache-Control": "public, max-age=31536000, immutable",
-            ...(size ? { "content-length": String(size) } : {}),
-          },
-        });
+      handle: (ctx: any) =>
+        serveAsset(
+          absolute("build", basePath, "es"),
+          ctx.request,
+          ctx.params.id,
+          { cors: manifest.cors },
+        ),
+    },
+    /** Server-sent rebuild events for the dev client, when `liveReload`. */
+    liveReloadRoute: {
+      match: {
+        method: "GET" as const,
+        pattern: new URLPattern({
+          pathname: join(
+            "/",
+            manifest.basePath ?? ".",
+            `/build/${basePath}/hmr`,
+          ),
+        }),
       },
+      handle: () =>
+        manifest.liveReload
+          ? liveReload.handle()
+          : new Response(null, { status: 404 }),
     },
   }).then((result) => {
     const render = createRenderer(result, manifest.moduleBaseURL);
-    return {
-      ...result,
-      render,
-      createRscRoutes: <T extends (arg: any) => any>(
-        routes: {
-          [key: string]: Promise<{ default: T | Promise<T> }>;
-        },
-        options?: { state?: any | (() => any) },
+    const prerenderRoutes: Promise<
+      Parameters<typeof prerenderRoute>[0] | null
+    >[] = [];
+    const analyzedRoutes: Promise<{ pattern: string; module: object }>[] = [];
+    const routePatterns = new Set<string>();
+    // Asset urls are served under the base path, the report lists the build
+    // outputs they point to.
+    const toOutputPaths = (assets?: ClientAssets) =>
+      [...assets?.modulepreloads ?? [], ...assets?.stylesheets ?? []].map((
+        endpointPath,
+      ) => relative(join("/", manifest.basePath ?? "."), endpointPath));
+    type RoutesOptions<T> = {
+      state?: any | (() => any);
+      prerender?: { fallback?: boolean };
+      /**
+       * Rendered with a 404 status for the pages calling `notFound()` and
+       * the requests under the base path no route matches.
+       */
+      notFound?: Promise<{ default: T | Promise<T> }>;
+      /**
+       * Rendered for the pages calling `forbidden()` or throwing, with the
+       * `status` and `error` in its props.
+       */
+      error?: Promise<{ default: T | Promise<T> }>;
+    };
+    const createRoutes = <T extends (arg: any) => any>(
+      routes: { [key: string]: RouteSource<{ default: T | Promise<T> }> },
+      options?: RoutesOptions<T>,
+    ) => {
+      const prepare = <T>(
+        p: Promise<{ default: T }> | { default: T },
+        fallbacks?: RouteFallbacks,
+        source?: RouteSource<{ default: T }>,
       ) => {
-        const prepare = <T>(p: Promise<{ default: T }> | { default: T }) => {
-          const res = Promise.resolve(p).then((v) =>
-            render(
-              withRouteContext(v.default as any),
-              typeof options?.state === "function"
-                ? options?.state()
-                : options?.state,
-            )
+        const load = (v: { default: T } & CacheModule) => {
+          if (v.revalidate !== false) assertRevalidate(v.revalidate);
+          return render(
+            withRouteContext(v.default as any),
+            typeof options?.state === "function"
+              ? options?.state()
+              : options?.state,
+            {
+              getClientAssets: () => getModuleClientAssets(v),
+              getMetadata: (ctx) => resolveMetadata([v], ctx),
+              fallbacks,
+              // Routes exporting `revalidate` cache their payload, `0` opts
+              // out like `false`.
+              cache: typeof v.revalidate === "number" && v.revalidate !== 0
+                ? { revalidate: v.revalidate, tags: v.tags }
+                : undefined,
+            },
           );
-          return (...params: [any]) => res.then((fn) => fn(...params));
         };
-        return [
-          ...Object.entries(routes).map(
-            (
-              [pathname, v],
-            ) => ({ method: "GET", handle: prepare(v), pathname } as const),
+        let res = Promise.resolve(p).then((v) => {
+          if (manifest.watch && source && source.files.length > 0) {
+            routeModules.push({
+              ...source,
+              namespace: v,
+              reload: (next) => (res = Promise.resolve(load(next))),
+            });
+          }
+          return load(v);
+        });
+        return (...params: [any]) => res.then((fn) => fn(...params));
+      };
+      const fallbacks: RouteFallbacks = {
+        notFound: options?.notFound && prepare(options.notFound),
+        error: options?.error && prepare(options.error),
+      };
+      const preparePrerendered = <T>(
+        source: RouteSource<{ default: T } & PrerenderModule>,
+        pattern: string,
+      ) => {
+        const p = source.load((file) => import(file));
+        const handle = prepare(p, fallbacks, source);
+        const module = Promise.resolve(p);
+        analyzedRoutes.push(module.then((module) => ({ pattern, module })));
+        prerenderRoutes.push(
+          module.then((module) =>
+            module.prerender
+              ? { pattern, module, handle, directory: prerenderDirectory }
+              : null
           ),
-          {
-            pathname: "/actions{/}?",
-            handle: prepare({ default: () => null }),
-            method: "POST",
-          } as const,
-        ].map((m) => ({
-          ...m,
-          pathname: join(
-            "/",
-            manifest.basePath?.concat(m.pathname) ?? m.pathname,
+        );
+        return async (ctx: any) => {
+          if (!(await module).prerender) return handle(ctx);
+          const response = await servePrerendered(
+            prerenderDirectory,
+            ctx.request,
+          );
+          return response ??
+            (options?.prerender?.fallback === false
+              ? new Response(null, { status: 404 })
+              : handle(ctx));
+        };
+      };
+      // Typed patterns of `href`, written at build time.
+      Object.keys(routes).forEach((pathname) =>
+        routePatterns.add(
+          join("/", manifest.basePath?.concat(pathname) ?? pathname),
+        )
+      );
+      if (withWritePermission) {
+        writeTextFileIfDifferentSync(
+          absolute("build", basePath, "routes.d.ts"),
+          generateRouteTypes([...routePatterns]),
+        );
+      }
+      return [
+        ...Object.entries(routes).map(
+          ([pathname, v]) => ({
+            method: "GET",
+            handle: preparePrerendered(
+              v,
+              join("/", manifest.basePath?.concat(pathname) ?? pathname),
+            ),
+            pathname,
+          } as const),
+        ),
+        {
+          pathname: "/actions{/}?",
+          handle: prepare({ default: () => null }),
+          method: "POST",
+        } as const,
+        ...(fallbacks.notFound
+          ? [
+            {
+              pathname: "/*",
+              handle: (ctx: any) =>
+                fallbacks.notFound!({ ...ctx, status: 404 }),
+              method: "GET",
+            } as const,
+          ]
+          : []),
+      ].map((m) => ({
+        ...m,
+        pathname: join(
+          "/",
+          manifest.basePath?.concat(m.pathname) ?? m.pathname,
+        ),
+      })).map(({ method, handle, pathname }) => ({
+        match: { method, pattern: new URLPattern({ pathname }) },
+        handle,
+      }));
+    };
+    /**
+     * Routes of the given modules, by pathname pattern. A module given by its
+     * url, like `import.meta.resolve("./pages/index.tsx")`, is imported by
+     * the engine, which reloads it in watch mode.
+     */
+    const createRscRoutes = <T extends (arg: any) => any>(
+      routes: {
+        [key: string]: Promise<{ default: T | Promise<T> }> | string;
+      },
+      options?: RoutesOptions<T>,
+    ) =>
+      createRoutes(
+        Object.fromEntries(
+          Object.entries(routes).map(([pathname, v]) => [
+            pathname,
+            (typeof v === "string"
+              ? { files: [v], load: (importModule) => importModule(v) }
+              : { files: [], load: () => v }) satisfies RouteSource<
+                { default: T | Promise<T> }
+              >,
+          ]),
+        ),
+        options,
+      );
+    return {
+      ...result,
+      render,
+      /**
+       * Prerenders the routes whose module exports `prerender = true`, to be
+       * served as static files by the routes of `createRscRoutes`.
+       */
+      prerender: async () => {
+        await Deno.remove(prerenderDirectory, { recursive: true })
+          .catch(() => null);
+        const routes = await Promise.all(prerenderRoutes);
+        const pathnames = await Promise.all(
+          routes
+            .filter((route): route is NonNullable<typeof route> => !!route)
+            .map(prerenderRoute),
+        );
+        return pathnames.flat();
+      },
+      /**
+       * Writes the sizes of the chunks loaded by each client reference and
+       * each route of `createRscRoutes` to `build/<basePath>/analyze.json`
+       * and `analyze.html`, throwing when a size budget is exceeded.
+       */
+      analyze: async () => {
+        const { clientModules } = await result;
+        const routes = await Promise.all(analyzedRoutes);
+        const report = await createBundleReport({
+          clientReferences: Object.fromEntries(
+            Object.entries(clientModules ?? {}).map((
+              [entryPoint, { assets }],
+            ) => [entryPoint, toOutputPaths(assets)]),
           ),
-        })).map(({ method, handle, pathname }) => ({
-          match: { method, pattern: new URLPattern({ pathname }) },
-          handle,
-        }));
+          routes: Object.fromEntries(
+            await Promise.all(
+              routes.map(async ({ pattern, module }) => [
+                pattern,
+                toOutputPaths(await getModuleClientAssets(module)),
+              ]),
+            ),
+          ),
+        }, manifest.budgets);
+        const directory = absolute("build", basePath);
+        await writeBundleReport(directory, report);
+        console.log(
+          "[rsc-engine] bundle report",
+          join(directory, "analyze.html"),
+        );
+        if (report.violations.length > 0) {
+          throw new Error(
+            `[rsc-engine] size budgets exceeded:\n${
+              report.violations
+                .map(({ kind, name, gzip, budget }) =>
+                  `  ${kind} ${name}: ${gzip} > ${budget} bytes gzipped`
+                )
+                .join("\n")
+            }`,
+          );
+        }
+        return report;
+      },
+      createRscRoutes,
+      /**
+       * Routes of the `appDirectory`: its pages wrapped in the layouts,
+       * loading and error components of their directories, its `not-found`
+       * page rendered by `notFound()`.
+       */
+      createFileRoutes: (
+        options?: Omit<
+          NonNullable<Parameters<typeof createRscRoutes>[1]>,
+          "notFound"
+        >,
+      ) => {
+        if (!manifest.appDirectory) {
+          throw new Error("[rsc-engine] createFileRoutes needs appDirectory");
+        }
+        const { routes, notFound } = scanAppDirectory(
+          absolute(manifest.appDirectory),
+        );
+        return createRoutes(
+          Object.fromEntries(
+            routes.map((route) => [
+              route.pattern,
+              {
+                files: getFileRouteFiles({ routes: [route] }),
+                load: (importModule) =>
+                  loadFileRoute(route, importModule, getRouteErrorBoundary),
+              } satisfies RouteSource<
+                Awaited<ReturnType<typeof loadFileRoute>>
+              >,
+            ]),
+          ),
+          { ...options, notFound: notFound ? import(notFound) : undefined },
+        );
       },
+      /**
+       * Plain `(request) => Promise<Response>` handler serving the client
+       * bundles, the live reload events and the given routes, for any server
+       * or framework. See `./adapters.ts`.
+       */
+      createHandler: (...args: Parameters<typeof createRscRoutes>) =>
+        createFetchHandler([
+          result.route,
+          result.liveReloadRoute,
+          ...createRscRoutes(...args),
+        ]),
     };
   });
 };
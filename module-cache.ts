@@ -0,0 +1,172 @@
+import { dirname } from "@std/path/dirname";
+import { fromFileUrl } from "@std/path/from-file-url";
+import { join } from "@std/path/join";
+import { toFileUrl } from "@std/path/to-file-url";
+import { getHashSync } from "@bureaudouble/scripted";
+import type { DirectiveResult } from "./directives.ts";
+
+export interface DirectiveStore {
+  get: (hash: string) => DirectiveResult | undefined;
+  set: (hash: string, result: DirectiveResult) => void;
+}
+
+interface CachedModuleInfo<T> {
+  localHashes: Record<string, string>;
+  info: T;
+}
+
+// Cached files are committed alongside the project, the working directory and
+// the DENO_DIR holding the `local` files of remote modules are replaced by
+// placeholders so they stay valid from another checkout or machine.
+const cwdPlaceholder = "{{cwd}}";
+const denoDirPlaceholder = "{{denoDir}}";
+
+let denoDir: Promise<string> | undefined;
+const getDenoDir = () =>
+  denoDir ??= new Deno.Command(Deno.execPath(), {
+    args: ["info", "--json"],
+    stdout: "piped",
+    stderr: "null",
+  }).output().then(({ stdout }) =>
+    JSON.parse(new TextDecoder().decode(stdout)).denoDir as string
+  );
+
+// The longest path is replaced first, one may contain the other.
+const getPlaceholders = (denoDir?: string) =>
+  [
+    [cwdPlaceholder, Deno.cwd()],
+    ...(denoDir ? [[denoDirPlaceholder, denoDir]] : []),
+  ].toSorted(([, a], [, b]) => b.length - a.length);
+
+const toPortable = (value: unknown, denoDir?: string) =>
+  getPlaceholders(denoDir).reduce(
+    (text, [placeholder, path]) =>
+      text
+        .replaceAll(toFileUrl(path).href, `file://${placeholder}`)
+        .replaceAll(path, placeholder),
+    JSON.stringify(value, null, 2),
+  );
+const fromPortable = async (text: string) => {
+  const denoDir = text.includes(denoDirPlaceholder)
+    ? await getDenoDir()
+    : undefined;
+  return JSON.parse(
+    getPlaceholders(denoDir).reduce(
+      (text, [placeholder, path]) =>
+        text
+          .replaceAll(`file://${placeholder}`, toFileUrl(path).href)
+          .replaceAll(placeholder, path),
+      text,
+    ),
+  );
+};
+
+const hashFile = (specifier: string) =>
+  Deno.readTextFile(fromFileUrl(specifier)).then(getHashSync, () => null);
+
+const writeFile = async (path: string, content: string) => {
+  await Deno.mkdir(dirname(path), { recursive: true });
+  await Deno.writeTextFile(path, content);
+};
+
+/**
+ * On-disk cache of the module graphs and directives of a build. A graph is
+ * reused as long as the local modules it lists keep the same content, and
+ * directives are stored by the hash of the source they were parsed from.
+ * When `frozen`, nothing is computed: a missing or stale entry is an error.
+ */
+export const createModuleCache = (
+  directory: string,
+  { frozen = false }: { frozen?: boolean } = {},
+) => {
+  const infoDirectory = join(directory, "info");
+  const directivesPath = join(directory, "directives.json");
+  const usedInfoFiles = new Set<string>();
+  const usedDirectives: Record<string, DirectiveResult> = {};
+  const storedDirectives: Promise<Record<string, DirectiveResult>> = Deno
+    .readTextFile(directivesPath)
+    .then(JSON.parse)
+    .catch(() => ({}));
+  let directives: Record<string, DirectiveResult> = {};
+
+  return {
+    getModuleInfo: async <T extends { modules: { specifier: string }[] }>(
+      entryPoint: string,
+      importMap: string,
+      compute: () => Promise<T>,
+    ): Promise<T> => {
+      const fileName = `${
+        getHashSync(toPortable([entryPoint, importMap]))
+      }.json`;
+      usedInfoFiles.add(fileName);
+      const path = join(infoDirectory, fileName);
+      const cached: CachedModuleInfo<T> | null = await Deno.readTextFile(path)
+        .then(fromPortable)
+        .catch(() => null);
+      const staleModules = cached
+        ? (await Promise.all(
+          Object.entries(cached.localHashes).map(async ([specifier, hash]) =>
+            (await hashFile(specifier)) === hash ? [] : [specifier]
+          ),
+        )).flat()
+        : null;
+      if (cached && staleModules?.length === 0) return cached.info;
+      if (frozen) {
+        throw new Error(
+          `[rsc-engine] --frozen: the module graph of ${entryPoint} is ${
+            cached ? `stale (${staleModules!.join(", ")})` : "not cached"
+          }, run a build without --frozen to update ${directory}`,
+        );
+      }
+      const info = await compute();
+      const localHashes = Object.fromEntries(
+        await Promise.all(
+          info.modules
+            .filter(({ specifier }) => new URL(specifier).protocol === "file:")
+            .map(async (
+              { specifier },
+            ) => [specifier, await hashFile(specifier)]),
+        ),
+      );
+      await writeFile(
+        path,
+        toPortable({ localHashes, info }, await getDenoDir()),
+      );
+      return info;
+    },
+    /** Directives read and parsed during this build, by source hash. */
+    loadDirectives: async (): Promise<DirectiveStore> => {
+      directives = await storedDirectives;
+      return {
+        get: (hash) => {
+          if (directives[hash]) usedDirectives[hash] = directives[hash];
+          return directives[hash];
+        },
+        set: (hash, result) => {
+          usedDirectives[hash] = result;
+        },
+      };
+    },
+    /** Writes the directives used by this build and drops stale entries. */
+    save: async () => {
+      if (frozen) return;
+      const content = JSON.stringify(
+        Object.fromEntries(
+          Object.entries(usedDirectives)
+            .sort(([a], [b]) => a.localeCompare(b)),
+        ),
+        null,
+        2,
+      );
+      if (content !== JSON.stringify(directives, null, 2)) {
+        await writeFile(directivesPath, content);
+      }
+      const entries = await Array.fromAsync(Deno.readDir(infoDirectory))
+        .catch(() => []);
+      for (const entry of entries) {
+        if (usedInfoFiles.has(entry.name)) continue;
+        await Deno.remove(join(infoDirectory, entry.name));
+      }
+    },
+  };
+};
@@ -0,0 +1,50 @@
+/** Response a server component asked for by throwing a route signal. */
+export interface RouteSignal {
+  status: number;
+  location?: string;
+}
+
+// Signals are sent to the client as the digest of the error React serializes
+// when they are thrown once the response has started streaming.
+const digestPrefix = "RSC_SIGNAL;";
+
+const signalMessages: Record<number, string> = {
+  403: "Forbidden",
+  404: "Not Found",
+};
+
+const throwSignal = (signal: RouteSignal): never => {
+  throw Object.assign(
+    new Error(
+      signal.location
+        ? `Redirect to ${signal.location}`
+        : signalMessages[signal.status] ?? `Status ${signal.status}`,
+    ),
+    { digest: `${digestPrefix}${JSON.stringify(signal)}` },
+  );
+};
+
+/** Answers with the `not-found` route component and a 404 status. */
+export const notFound = (): never => throwSignal({ status: 404 });
+
+/** Answers with the `error` route component and a 403 status. */
+export const forbidden = (): never => throwSignal({ status: 403 });
+
+/** Redirects to `url`, with a meta refresh once streaming has begun. */
+export const redirect = (url: string, status = 307): never =>
+  throwSignal({ status, location: url });
+
+/** The signal an error thrown by `notFound`, `forbidden` or `redirect` holds. */
+export const getRouteSignal = (error: unknown): RouteSignal | undefined => {
+  const digest = (error as { digest?: unknown } | null)?.digest;
+  if (typeof digest !== "string" || !digest.startsWith(digestPrefix)) return;
+  try {
+    return JSON.parse(digest.slice(digestPrefix.length));
+  } catch {
+    return;
+  }
+};
+
+/** Digest React sends for a route signal, `undefined` for other errors. */
+export const getRouteSignalDigest = (error: unknown) =>
+  getRouteSignal(error) && (error as { digest: string }).digest;
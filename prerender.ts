@@ -0,0 +1,123 @@
+import { dirname } from "@std/path/dirname";
+import { join } from "@std/path/join";
+import { expandPathname, type RouteParams } from "./routes.ts";
+import { runtimeConfigHeader } from "./runtime-config.ts";
+
+/** Exports a route module can use to opt into prerendering. */
+export interface PrerenderModule {
+  prerender?: boolean;
+  generateStaticParams?: () => RouteParams[] | Promise<RouteParams[]>;
+}
+
+const formats = {
+  html: { ext: ".html", contentType: "text/html; charset=utf-8" },
+  rsc: { ext: ".rsc", contentType: "text/x-component" },
+} as const;
+
+// Headers of the rendered response served again with the prerendered file,
+// kept aside in `<file>.headers.json`.
+const keptHeaders = ["Link", runtimeConfigHeader];
+
+const getFormat = (request: Request) =>
+  request.headers.get("Accept") === "text/x-component"
+    ? formats.rsc
+    : formats.html;
+
+export const getPrerenderedPath = (
+  directory: string,
+  pathname: string,
+  ext: string,
+) =>
+  join(
+    directory,
+    decodeURIComponent(pathname).replace(/\/$/, "/index").concat(ext),
+  );
+
+/**
+ * Renders every pathname of a route, as html and as an RSC payload, into the
+ * prerender directory. Dynamic patterns are expanded with the params returned
+ * by the module `generateStaticParams` export.
+ */
+export const prerenderRoute = async ({
+  pattern,
+  module,
+  handle,
+  directory,
+}: {
+  pattern: string;
+  module: PrerenderModule;
+  handle: (ctx: any) => Promise<Response>;
+  directory: string;
+}) => {
+  const isDynamic = /:\w+/.test(pattern);
+  if (isDynamic && !module.generateStaticParams) {
+    console.warn(
+      "[rsc-engine] skip prerender of",
+      pattern,
+      "missing generateStaticParams export",
+    );
+    return [];
+  }
+  const paramsList = isDynamic ? await module.generateStaticParams!() : [{}];
+  return await Promise.all(paramsList.map(async (params) => {
+    const pathname = expandPathname(pattern, params);
+    for (const format of Object.values(formats)) {
+      const request = new Request(new URL(pathname, "http://localhost"), {
+        headers: format === formats.rsc ? { Accept: format.contentType } : {},
+      });
+      const response = await handle({
+        request,
+        params,
+        state: {},
+        next: () => new Response(null, { status: 404 }),
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(
+          `Prerender of ${pathname} failed with status ${response.status}`,
+        );
+      }
+      const path = getPrerenderedPath(directory, pathname, format.ext);
+      await Deno.mkdir(dirname(path), { recursive: true });
+      await Deno.writeFile(path, response.body);
+      await Deno.writeTextFile(
+        `${path}.headers.json`,
+        JSON.stringify(Object.fromEntries(
+          keptHeaders.flatMap((name) => {
+            const value = response.headers.get(name);
+            return value ? [[name, value]] : [];
+          }),
+        )),
+      );
+      console.log("[rsc-engine] prerendered", path);
+    }
+    return pathname;
+  }));
+};
+
+export const servePrerendered = async (
+  directory: string,
+  request: Request,
+): Promise<Response | null> => {
+  const format = getFormat(request);
+  const { pathname } = new URL(request.url);
+  let path: string;
+  try {
+    path = getPrerenderedPath(directory, pathname, format.ext);
+  } catch {
+    // Malformed escapes, no prerendered file can match.
+    return null;
+  }
+  if (!path.startsWith(join(directory, "/"))) return null;
+  const file = await Deno.open(path).catch(() => null);
+  if (!file) return null;
+  const headers: Record<string, string> = await Deno.readTextFile(
+    `${path}.headers.json`,
+  ).then(JSON.parse, () => ({}));
+  return new Response(file.readable, {
+    headers: {
+      ...headers,
+      "Content-Type": format.contentType,
+      "Cache-Control": "no-cache",
+    },
+  });
+};
@@ -3,12 +3,16 @@ import { AsyncLocalStorage } from "node:async_hooks";
 /* @deno-types="@types/react" */
 import * as React from "react";
 
+type PageResult = { error: unknown } | null;
+
 type ReactRouterContext = RouterContext<
   any,
   {
     id: number;
     redirect: (v: string) => void;
     routeStorage?: AsyncLocalStorage<any>;
+    deferPage?: () => (result: PageResult) => void;
+    settlePage?: (result: PageResult) => void;
   }
 >;
 
@@ -24,7 +28,36 @@ export const routeStorage: {
 export const getRouteContext = (): ReactRouterContext =>
   routeStorage.getStore() ?? getRouteContext_();
 
-const Context = (
+/** Marks a route component settling its page itself, with `renderPage`. */
+export const settlesPage: unique symbol = Symbol.for("rsc-engine.settlesPage");
+
+// The page is called in the render of this component, so its hooks work, and
+// the renderer is settled once it returned: the response status waits for its
+// `notFound()` or `redirect()`. Errors settle it through the renderer.
+const SettlePage = (
+  { ctx, Component }: {
+    ctx: ReactRouterContext;
+    Component: React.FC<any>;
+  },
+) => {
+  const settle = ctx.state.settlePage ?? (() => {});
+  // Client references and non-function components are rendered as elements.
+  if (typeof Component !== "function" || "$$typeof" in Component) {
+    settle(null);
+    return <Component {...ctx} />;
+  }
+  const element = Component(ctx) as React.ReactNode | Promise<React.ReactNode>;
+  if (!(element instanceof Promise)) return (settle(null), element);
+  return element.then((element) => (settle(null), element));
+};
+
+/** Element of a page settling the renderer once it returned. */
+export const renderPage = (
+  Component: React.FC<any>,
+  ctx: ReactRouterContext,
+) => <SettlePage ctx={ctx} Component={Component} />;
+
+const Context = async (
   { ctx, Component: ComponentPromise }: {
     ctx: ReactRouterContext;
     Component:
@@ -33,17 +66,23 @@ const Context = (
   },
 ) => {
   Object.assign(getRouteContext(), ctx);
-  const Component: React.FC<any> = React.use(ComponentPromise as any);
-  return <Component {...ctx} />;
+  const Component: React.FC<any> = await ComponentPromise;
+  return typeof Component === "function" && settlesPage in Component
+    ? <Component {...ctx} />
+    : renderPage(Component, ctx);
 };
 export const withRouteContext = <T extends React.FC<ReactRouterContext>>(
   routeComponent: Promise<T> | T,
 ) => {
   return () => {
     return Promise.resolve({
-      default: (ctx: ReactRouterContext) => (
-        <Context ctx={ctx} Component={Promise.resolve(routeComponent)} />
-      ),
+      default: (ctx: ReactRouterContext) => {
+        // The renderer waits for the page before the response starts.
+        ctx.state.settlePage = ctx.state.deferPage?.();
+        return (
+          <Context ctx={ctx} Component={Promise.resolve(routeComponent)} />
+        );
+      },
     });
   };
 };
@@ -0,0 +1,92 @@
+export type RouteParams = Record<string, string>;
+
+/**
+ * Route patterns and their params, filled by the `routes.d.ts` the build
+ * writes for each base path: `{ "/products/:id": { id: string } }`.
+ */
+export interface RouteRegistry {}
+
+type Routes = [keyof RouteRegistry] extends [never]
+  ? Record<string, RouteParams>
+  : RouteRegistry;
+
+export type RoutePattern = keyof Routes & string;
+
+type HrefArgs<P extends RoutePattern> = Record<never, never> extends Routes[P]
+  ? [params?: Routes[P]]
+  : [params: Routes[P]];
+
+const getParamNames = (value: string) =>
+  [...value.matchAll(/:(\w+)/g)].map(([, name]) => name);
+
+const encodeParam = (value: string, modifier: string) =>
+  modifier === "*" || modifier === "+"
+    ? value.split("/").map(encodeURIComponent).join("/")
+    : encodeURIComponent(value);
+
+/**
+ * Fills the named groups of a URLPattern pathname with the given params.
+ * Optional groups and params without a value are left out.
+ */
+export const expandPathname = (pattern: string, params: RouteParams) => {
+  const pathname = pattern
+    .replace(/\{([^{}]*)\}\?/g, (_, group) => {
+      const names = getParamNames(group);
+      return names.length > 0 && names.every((name) => name in params)
+        ? group
+        : "";
+    })
+    .replace(/(\/?):(\w+)([?*+]?)/g, (_, slash, name, modifier) => {
+      if (!(name in params)) {
+        if (modifier === "?" || modifier === "*") return "";
+        throw new Error(`Missing param "${name}" to expand ${pattern}`);
+      }
+      return `${slash}${encodeParam(params[name], modifier)}`;
+    });
+  if (!new URLPattern({ pathname: pattern }).test({ pathname })) {
+    throw new Error(
+      `Could not expand ${pattern} with ${JSON.stringify(params)}`,
+    );
+  }
+  return pathname;
+};
+
+/**
+ * Builds the pathname of a route from its pattern, type checked against the
+ * generated route map: `href("/products/:id", { id: "1" })`.
+ */
+export const href = <P extends RoutePattern>(
+  pattern: P,
+  ...[params]: HrefArgs<P>
+): string => expandPathname(pattern, (params ?? {}) as RouteParams);
+
+const getParamsType = (pattern: string) => {
+  const optionalGroups = [...pattern.matchAll(/\{([^{}]*)\}\?/g)]
+    .flatMap(([, group]) => getParamNames(group));
+  const fields = [...pattern.matchAll(/:(\w+)([?*+]?)/g)].map((
+    [, name, modifier],
+  ) =>
+    `${JSON.stringify(name)}${
+      modifier === "?" || modifier === "*" || optionalGroups.includes(name)
+        ? "?"
+        : ""
+    }: string`
+  );
+  return fields.length > 0 ? `{ ${fields.join("; ")} }` : "{}";
+};
+
+/** Declaration file adding the route patterns to the `RouteRegistry`. */
+export const generateRouteTypes = (patterns: string[]) =>
+  [
+    "// Generated by @bureaudouble/rsc-engine, do not edit.",
+    'import "@bureaudouble/rsc-engine/routes";',
+    "",
+    'declare module "@bureaudouble/rsc-engine/routes" {',
+    "  interface RouteRegistry {",
+    ...[...new Set(patterns)].sort().map((pattern) =>
+      `    ${JSON.stringify(pattern)}: ${getParamsType(pattern)};`
+    ),
+    "  }",
+    "}",
+    "",
+  ].join("\n");
@@ -0,0 +1,50 @@
+/** Settings of the app that rendered the page, read by the client runtime. */
+export interface RuntimeConfig {
+  basePath: string;
+  actionEndpoint: string;
+  assetPrefix: string;
+  namespace: string;
+}
+
+/** Header carrying the config of the app answering an RSC request. */
+export const runtimeConfigHeader = "X-RSC-Config";
+
+const defaultRuntimeConfig: RuntimeConfig = {
+  basePath: "/",
+  actionEndpoint: "/actions",
+  assetPrefix: "/build/default/es/",
+  namespace: "default",
+};
+
+const getGlobal = () =>
+  globalThis as typeof globalThis & { __RSC_CONFIG__?: RuntimeConfig };
+
+/** Inline script setting the config before the bootstrap modules run. */
+export const getRuntimeConfigScript = (config: RuntimeConfig) =>
+  `globalThis.__RSC_CONFIG__ = ${
+    JSON.stringify(config).replaceAll("<", "\\u003c")
+  };`;
+
+/** Config of the app that rendered the current page. */
+export const getRuntimeConfig = (): RuntimeConfig =>
+  getGlobal().__RSC_CONFIG__ ?? defaultRuntimeConfig;
+
+/**
+ * Switches to the config sent with an RSC response. Returns `false` when
+ * another app of the same origin answered, under another namespace: its
+ * bundles are not loaded in this page, which must be loaded again.
+ */
+export const updateRuntimeConfig = (response: Response) => {
+  const header = response.headers.get(runtimeConfigHeader);
+  if (!header) return true;
+  let config: RuntimeConfig;
+  try {
+    config = JSON.parse(decodeURIComponent(header));
+  } catch {
+    // Keep the current config, the header was not sent by the engine.
+    return true;
+  }
+  if (config.namespace !== getRuntimeConfig().namespace) return false;
+  getGlobal().__RSC_CONFIG__ = config;
+  return true;
+};
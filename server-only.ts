@@ -0,0 +1,9 @@
+/**
+ * Marks the importing module as server only: the build fails when it ends up
+ * in the client bundle.
+ *
+ * ```ts
+ * import "@bureaudouble/rsc-engine/server-only";
+ * ```
+ */
+export {};
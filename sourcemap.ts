@@ -0,0 +1,204 @@
+import { eTag } from "@std/http/etag";
+import { fromFileUrl } from "@std/path/from-file-url";
+
+export interface SourceMap {
+  version: 3;
+  sources: string[];
+  sourcesContent?: (string | null)[];
+  names: string[];
+  mappings: string;
+}
+
+/** Part of an edited text, `origin` is its offset in the text it comes from. */
+export interface MappedChunk {
+  text: string;
+  origin?: number;
+}
+
+// [generatedColumn, sourceIndex, originalLine, originalColumn]
+type Segment = [number, number, number, number];
+
+const base64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const decodeVlq = (value: string) => {
+  const numbers: number[] = [];
+  let shift = 0;
+  let current = 0;
+  for (const char of value) {
+    const digit = base64.indexOf(char);
+    current += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    numbers.push(current & 1 ? -(current >>> 1) : current >>> 1);
+    shift = 0;
+    current = 0;
+  }
+  return numbers;
+};
+
+const encodeVlq = (value: number) => {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = "";
+  do {
+    const digit = vlq & 31;
+    vlq >>>= 5;
+    encoded += base64[vlq > 0 ? digit | 32 : digit];
+  } while (vlq > 0);
+  return encoded;
+};
+
+const decodeMappings = (mappings: string): Segment[][] => {
+  const state = [0, 0, 0, 0];
+  return mappings.split(";").map((line) => {
+    state[0] = 0;
+    return line.split(",").filter(Boolean).flatMap((field) => {
+      const values = decodeVlq(field);
+      values.forEach((value, i) => (state[i] += value));
+      return values.length >= 4 ? [[...state] as Segment] : [];
+    });
+  });
+};
+
+const encodeMappings = (lines: Segment[][]) => {
+  const state = [0, 0, 0, 0];
+  return lines.map((segments) => {
+    state[0] = 0;
+    return segments.map((segment) => {
+      const field = segment.map((value, i) => encodeVlq(value - state[i]));
+      segment.forEach((value, i) => (state[i] = value));
+      return field.join("");
+    }).join(",");
+  }).join(";");
+};
+
+const getLineStarts = (text: string) =>
+  [...text.matchAll(/\n/g)].reduce(
+    (starts, match) => [...starts, match.index! + 1],
+    [0],
+  );
+
+/**
+ * Maps text assembled from chunks of `input.code` back to the sources of
+ * `input.map`. Chunks without origin, the generated code, are left unmapped.
+ */
+export const composeSourceMap = (
+  chunks: MappedChunk[],
+  input: { code: string; map: SourceMap },
+): SourceMap => {
+  const inputLineStarts = getLineStarts(input.code);
+  const inputSegments = decodeMappings(input.map.mappings).flatMap(
+    (segments, line) =>
+      segments.map((segment) => ({
+        offset: inputLineStarts[line] + segment[0],
+        segment,
+      })),
+  );
+  const lines: Segment[][] = [[]];
+  let line = 0;
+  let column = 0;
+  for (const { text, origin } of chunks) {
+    if (origin !== undefined) {
+      const end = origin + text.length;
+      const covering = inputSegments.findLast(({ offset }) => offset <= origin);
+      const inside = inputSegments.filter(({ offset }) =>
+        offset > origin && offset < end
+      );
+      for (
+        const { offset, segment } of [...covering ? [covering] : [], ...inside]
+      ) {
+        const before = text.slice(0, Math.max(0, offset - origin));
+        const newlines = getLineStarts(before);
+        const lineIndex = line + newlines.length - 1;
+        lines[lineIndex] ??= [];
+        lines[lineIndex].push([
+          newlines.length > 1
+            ? before.length - newlines.at(-1)!
+            : column + before.length,
+          segment[1],
+          segment[2],
+          segment[3],
+        ]);
+      }
+    }
+    const newlines = getLineStarts(text);
+    line += newlines.length - 1;
+    column = newlines.length > 1
+      ? text.length - newlines.at(-1)!
+      : column + text.length;
+    lines[line] ??= [];
+  }
+  return {
+    version: 3,
+    sources: input.map.sources,
+    sourcesContent: input.map.sourcesContent,
+    names: [],
+    mappings: encodeMappings(
+      Array.from(
+        lines,
+        (segments) => (segments ?? []).toSorted((a, b) => a[0] - b[0]),
+      ),
+    ),
+  };
+};
+
+const sourceMapCache = new Map<
+  string,
+  { tag?: string; lines: Segment[][]; sources: string[] } | null
+>();
+
+const loadSourceMap = async (fileURL: string) => {
+  const tag = await Deno.stat(fromFileUrl(fileURL)).then(eTag).catch(() =>
+    undefined
+  );
+  const cached = sourceMapCache.get(fileURL);
+  if (cached !== undefined && cached?.tag === tag) return cached;
+  const map: SourceMap | null = await Deno.readTextFile(
+    fromFileUrl(`${fileURL}.map`),
+  )
+    .then(JSON.parse)
+    .catch(() => null);
+  const sourceMap = map
+    ? {
+      tag,
+      lines: decodeMappings(map.mappings),
+      sources: map.sources.map((source) => new URL(source, fileURL).href),
+    }
+    : null;
+  sourceMapCache.set(fileURL, sourceMap);
+  return sourceMap;
+};
+
+/**
+ * Rewrites the `file:` stack frames of an error pointing into modules with a
+ * sibling `.map` file, the generated reference modules, to the original
+ * source locations. The map is not linked from the module itself, Deno would
+ * otherwise compose it with the map of its own transpilation, inaccurately.
+ */
+export const remapErrorStack = async <T>(error: T): Promise<T> => {
+  if (!(error instanceof Error) || !error.stack) return error;
+  const frames = [
+    ...error.stack.matchAll(/(file:\/\/\/[^\s()]+):(\d+):(\d+)/g),
+  ];
+  const remapped = await Promise.all(
+    frames.map(async ([frame, fileURL, line, column]) => {
+      const sourceMap = await loadSourceMap(fileURL);
+      const segment = sourceMap?.lines[Number(line) - 1]?.findLast(
+        ([generatedColumn]) => generatedColumn <= Number(column) - 1,
+      );
+      return segment
+        ? `${sourceMap!.sources[segment[1]]}:${segment[2] + 1}:${
+          segment[3] + 1
+        }`
+        : frame;
+    }),
+  );
+  let i = 0;
+  error.stack = error.stack.replace(
+    /(file:\/\/\/[^\s()]+):(\d+):(\d+)/g,
+    () => remapped[i++],
+  );
+  return error;
+};
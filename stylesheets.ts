@@ -0,0 +1,66 @@
+import type * as Esbuild from "esbuild-types";
+import { dirname } from "@std/path/dirname";
+import { fromFileUrl } from "@std/path/from-file-url";
+import { join } from "@std/path/join";
+
+export const stylesheetNamespace = "rsc-stylesheet";
+export const isStylesheet = (specifier?: string) =>
+  !!specifier && /\.css$/.test(new URL(specifier, "file:///").pathname);
+export const isCssModule = (specifier: string) =>
+  /\.module\.css$/.test(specifier);
+
+/** Entry point bundling a stylesheet imported by a server component. */
+export const toStylesheetEntryPoint = (path: string) =>
+  `${stylesheetNamespace}:${path}`;
+
+/**
+ * Lets esbuild load local stylesheets itself (`css` or `local-css` for
+ * `.module.css`) instead of the deno loader, and turns stylesheets imported by
+ * server components into JS entry points exposing their class names.
+ */
+export const createStylesheetPlugin = (): Esbuild.Plugin => ({
+  name: "stylesheets",
+  setup(build) {
+    build.onResolve({ filter: new RegExp(`^${stylesheetNamespace}:`) }, (
+      args,
+    ) => ({
+      path: args.path.slice(stylesheetNamespace.length + 1),
+      namespace: stylesheetNamespace,
+    }));
+    build.onLoad({ filter: /.*/, namespace: stylesheetNamespace }, (args) => ({
+      contents: isCssModule(args.path)
+        ? `export * from ${JSON.stringify(args.path)};\n` +
+          `export { default } from ${JSON.stringify(args.path)};`
+        : `import ${JSON.stringify(args.path)};`,
+      loader: "js",
+      resolveDir: dirname(args.path),
+    }));
+    build.onResolve({ filter: /\.css$/ }, (args) => {
+      if (args.path.startsWith("file:")) {
+        return { path: fromFileUrl(args.path) };
+      }
+      if (!args.path.startsWith(".") && !args.path.startsWith("/")) return;
+      const importer = args.importer.startsWith("file:")
+        ? fromFileUrl(args.importer)
+        : args.importer;
+      if (URL.canParse(importer)) return;
+      return {
+        path: args.path.startsWith("/")
+          ? args.path
+          : join(args.resolveDir || dirname(importer), args.path),
+      };
+    });
+  },
+});
+
+/** Server side stand-in for a stylesheet import, re-exporting class names. */
+export const generateStylesheetServerCode = (
+  specifier: string,
+  bundleImportUrl: string,
+) =>
+  isCssModule(specifier)
+    ? [
+      `export * from ${JSON.stringify(bundleImportUrl)};`,
+      `export { default } from ${JSON.stringify(bundleImportUrl)};`,
+    ].join("\n")
+    : `export {};`;
@@ -0,0 +1,63 @@
+import { dirname } from "@std/path/dirname";
+
+/**
+ * Watches the files returned by `getPaths`, calling `onChange` with the ones
+ * that changed once no event came for `debounce` milliseconds. Their parent
+ * directories are watched rather than the files, editors often replace a file
+ * on save, and the list is read again after every change.
+ */
+export const watchFiles = (
+  getPaths: () => Promise<string[]>,
+  onChange: (paths: string[]) => Promise<void>,
+  debounce = 100,
+) => {
+  let watched = new Set<string>();
+  let directories: string[] = [];
+  let watcher: Deno.FsWatcher | undefined;
+  let timer: number | undefined;
+  const changed = new Set<string>();
+
+  const listen = async (fsWatcher: Deno.FsWatcher) => {
+    for await (const event of fsWatcher) {
+      if (event.kind === "access") continue;
+      event.paths
+        .filter((path) => watched.has(path))
+        .forEach((path) => changed.add(path));
+      if (changed.size === 0) continue;
+      clearTimeout(timer);
+      timer = setTimeout(flush, debounce);
+    }
+  };
+
+  const update = async () => {
+    watched = new Set(await getPaths());
+    const next = (await Promise.all(
+      [...new Set([...watched].map((path) => dirname(path)))].map((
+        directory,
+      ) => Deno.stat(directory).then(() => [directory], () => [])),
+    )).flat().sort();
+    if (next.join("\n") === directories.join("\n")) return;
+    directories = next;
+    watcher?.close();
+    watcher = Deno.watchFs(directories, { recursive: false });
+    listen(watcher);
+  };
+
+  let queue = update();
+  const flush = () => {
+    const paths = [...changed];
+    changed.clear();
+    queue = queue
+      .then(() => onChange(paths))
+      .then(update)
+      .catch((error) => console.error("[rsc-engine] watch", error));
+  };
+
+  return {
+    ready: () => queue,
+    close: () => {
+      clearTimeout(timer);
+      watcher?.close();
+    },
+  };
+};